@@ -1,15 +1,20 @@
 import type { NodePath } from "@babel/core";
 import type { Scope } from "@babel/traverse";
 import type {
-  ClassDeclaration,
+  Class,
   ClassMethod,
+  Expression,
   Identifier,
   JSXIdentifier,
   TSType,
   TSTypeParameterDeclaration,
 } from "@babel/types";
 import { AnalysisError, SoftErrorRepository } from "./analysis/error.js";
-import { BindThisSite, analyzeClassFields } from "./analysis/class_fields.js";
+import {
+  BindThisSite,
+  analyzeClassFields,
+  estimateSideEffect,
+} from "./analysis/class_fields.js";
 import { analyzeState, StateObjAnalysis } from "./analysis/state.js";
 import { getAndDelete } from "./utils.js";
 import { analyzeProps, needAlias, PropsObjAnalysis } from "./analysis/prop.js";
@@ -22,6 +27,29 @@ import {
 import type { PreAnalysisResult } from "./analysis/pre.js";
 import type { LibRef } from "./analysis/lib.js";
 import { EffectAnalysis, analyzeEffects } from "./analysis/effect.js";
+import { MemoAnalysis, analyzeMemo } from "./analysis/memo.js";
+import { ExposeAnalysis, analyzeExpose } from "./analysis/expose.js";
+import {
+  StaticMembersAnalysis,
+  analyzeStaticMembers,
+} from "./analysis/static.js";
+import {
+  ForceUpdateAnalysis,
+  analyzeForceUpdate,
+} from "./analysis/force_update.js";
+import {
+  StringRefsAnalysis,
+  analyzeStringRefs,
+} from "./analysis/string_ref.js";
+import {
+  DerivedStateAnalysis,
+  analyzeDerivedState,
+} from "./analysis/derived_state.js";
+import {
+  ContextObjAnalysis,
+  LegacyContextMapping,
+  analyzeContext,
+} from "./analysis/context.js";
 
 export { AnalysisError, SoftErrorRepository } from "./analysis/error.js";
 
@@ -36,6 +64,31 @@ export type {
 } from "./analysis/state.js";
 export { needAlias } from "./analysis/prop.js";
 export type { PropsObjAnalysis } from "./analysis/prop.js";
+export type { MemoAnalysis, MemoComparator } from "./analysis/memo.js";
+export type { DerivedStateAnalysis } from "./analysis/derived_state.js";
+export type { ForceUpdateAnalysis } from "./analysis/force_update.js";
+export type { ExposeAnalysis } from "./analysis/expose.js";
+export type {
+  StaticMemberAnalysis,
+  StaticMembersAnalysis,
+} from "./analysis/static.js";
+export type { UserDefinedFn } from "./analysis/user_defined.js";
+export type {
+  RefElementType,
+  StringRefsAnalysis,
+} from "./analysis/string_ref.js";
+export type { ErrorBoundaryAnalysis } from "./analysis/error_boundary.js";
+export type { FunctionLikePath } from "./analysis/signature.js";
+export { isEntityExpression, returnsValue } from "./analysis/signature.js";
+export type { AliasCopy } from "./analysis/track_member.js";
+export {
+  analyzeErrorBoundary,
+  isErrorBoundary,
+} from "./analysis/error_boundary.js";
+export type {
+  ContextObjAnalysis,
+  LegacyContextMapping,
+} from "./analysis/context.js";
 
 const SPECIAL_STATIC_NAMES = new Set<string>([
   "childContextTypes",
@@ -51,29 +104,63 @@ export type AnalysisResult = {
   typeParameters?: NodePath<TSTypeParameterDeclaration> | undefined;
   superClassRef: LibRef;
   isPure: boolean;
+  memo: MemoAnalysis;
   propsTyping: NodePath<TSType> | undefined;
   locals: LocalManager;
   render: RenderAnalysis;
   state: StateObjAnalysis;
+  derivedState: DerivedStateAnalysis | undefined;
+  forceUpdate: ForceUpdateAnalysis;
+  stringRefs: StringRefsAnalysis;
   props: PropsObjAnalysis;
+  context: ContextObjAnalysis;
   userDefined: UserDefinedAnalysis;
+  expose: ExposeAnalysis | undefined;
+  statics: StaticMembersAnalysis;
   effects: EffectAnalysis;
   bindThisSites: BindThisSite[];
 };
 
+export type AnalysisOptions = {
+  /**
+   * Mapping from legacy context keys to the modern context objects.
+   */
+  legacyContexts?: Record<string, LegacyContextMapping> | undefined;
+  /**
+   * Initialize states lazily unless the initializer is a literal.
+   */
+  forceLazyStateInit?: boolean | undefined;
+};
+
 export function analyzeClass(
-  path: NodePath<ClassDeclaration>,
+  path: NodePath<Class>,
   preanalysis: PreAnalysisResult,
-  softErrors: SoftErrorRepository
+  softErrors: SoftErrorRepository,
+  options: AnalysisOptions = {}
 ): AnalysisResult {
   const locals = new LocalManager(path);
   const {
     instanceFields: sites,
     staticFields,
     bindThisSites,
+    staticThisSites,
+    externalStaticStmts,
   } = analyzeClassFields(path, softErrors);
 
+  const shouldComponentUpdate = getAndDelete(
+    sites,
+    "shouldComponentUpdate"
+  ) ?? { sites: [] };
+  const memo = analyzeMemo(shouldComponentUpdate, softErrors);
+
   const propsObjAnalysis = getAndDelete(sites, "props") ?? { sites: [] };
+  if (memo.comparator) {
+    // this.props in shouldComponentUpdate is handled separately
+    const comparatorPropsSites = new Set<NodePath>(memo.comparator.propsSites);
+    propsObjAnalysis.sites = propsObjAnalysis.sites.filter(
+      (site) => !comparatorPropsSites.has(site.path)
+    );
+  }
   const defaultPropsObjAnalysis = getAndDelete(
     staticFields,
     "defaultProps"
@@ -88,6 +175,62 @@ export function analyzeClass(
     softErrors,
     preanalysis
   );
+  for (const [, state] of states.states) {
+    if (state.init) {
+      const initNode = state.init.valuePath.node;
+      // Avoid recomputing the initial state in every render
+      state.lazyInit = options.forceLazyStateInit
+        ? !isLiteral(initNode)
+        : estimateSideEffect(initNode);
+    }
+  }
+  if (states.whole?.init) {
+    const initNode = states.whole.init.node;
+    states.whole.lazyInit = options.forceLazyStateInit
+      ? !isLiteral(initNode)
+      : estimateSideEffect(initNode);
+  }
+  const getDerivedStateFromProps = getAndDelete(
+    staticFields,
+    "getDerivedStateFromProps"
+  ) ?? { sites: [] };
+  const derivedState = analyzeDerivedState(getDerivedStateFromProps, states);
+  if (derivedState && states.whole) {
+    throw new AnalysisError(
+      "Cannot transform getDerivedStateFromProps with non-analyzable setState"
+    );
+  }
+  if (derivedState) {
+    // Hoisted next to the component
+    const baseName = "getDerivedStateFromProps";
+    derivedState.hoistedName = path.scope.hasBinding(baseName)
+      ? path.scope.generateUid(baseName)
+      : baseName;
+    locals.markCaptured(derivedState.hoistedName);
+  }
+
+  const forceUpdateAnalysis = getAndDelete(sites, "forceUpdate") ?? {
+    sites: [],
+  };
+  const forceUpdate = analyzeForceUpdate(forceUpdateAnalysis, softErrors);
+
+  const refsAnalysis = getAndDelete(sites, "refs") ?? { sites: [] };
+  const stringRefs = analyzeStringRefs(path, refsAnalysis, locals, softErrors);
+
+  const contextObjAnalysis = getAndDelete(sites, "context") ?? { sites: [] };
+  const contextTypeAnalysis = getAndDelete(staticFields, "contextType") ?? {
+    sites: [],
+  };
+  const contextTypesAnalysis = getAndDelete(staticFields, "contextTypes") ?? {
+    sites: [],
+  };
+  const childContextTypesAnalysis = getAndDelete(
+    staticFields,
+    "childContextTypes"
+  ) ?? { sites: [] };
+  const getChildContextAnalysis = getAndDelete(sites, "getChildContext") ?? {
+    sites: [],
+  };
 
   const componentDidMount = getAndDelete(sites, "componentDidMount") ?? {
     sites: [],
@@ -98,6 +241,10 @@ export function analyzeClass(
   const componentWillUnmount = getAndDelete(sites, "componentWillUnmount") ?? {
     sites: [],
   };
+  const getSnapshotBeforeUpdate = getAndDelete(
+    sites,
+    "getSnapshotBeforeUpdate"
+  ) ?? { sites: [] };
 
   const renderAnalysis = getAndDelete(sites, "render") ?? { sites: [] };
 
@@ -116,25 +263,95 @@ export function analyzeClass(
       }
     }
   }
-  const userDefined = analyzeUserDefined(sites, softErrors);
+  const userDefined = analyzeUserDefined(
+    sites,
+    new Set(preanalysis.expose),
+    softErrors
+  );
+  const expose = analyzeExpose(preanalysis, userDefined);
   for (const [name] of staticFields) {
-    if (!SPECIAL_STATIC_NAMES.has(name)) {
-      throw new AnalysisError(`Cannot transform static ${name}`);
-    } else {
+    if (SPECIAL_STATIC_NAMES.has(name)) {
       throw new AnalysisError(`Cannot transform static ${name}`);
     }
   }
+  const statics = analyzeStaticMembers(
+    staticFields,
+    staticThisSites,
+    externalStaticStmts
+  );
+  if (
+    (statics.members.size > 0 || statics.thisSites.length > 0) &&
+    !preanalysis.name
+  ) {
+    throw new AnalysisError(
+      "Cannot transform static members of an anonymous class"
+    );
+  }
   if (!renderPath) {
     throw new AnalysisError(`Missing render method`);
   }
+  const context = analyzeContext(
+    contextObjAnalysis,
+    contextTypeAnalysis,
+    contextTypesAnalysis,
+    childContextTypesAnalysis,
+    getChildContextAnalysis,
+    renderPath,
+    new Map(Object.entries(options.legacyContexts ?? {})),
+    locals,
+    softErrors
+  );
   const props = analyzeProps(
     propsObjAnalysis,
     defaultPropsObjAnalysis,
     locals,
     softErrors,
-    preanalysis
+    preanalysis,
+    // getDerivedStateFromProps receives the props with the defaults resolved
+    !!derivedState
   );
-  postAnalyzeCallbackDependencies(userDefined, props, states, sites);
+  if (props.merged) {
+    // Hoisted next to the component
+    const baseName = "defaultProps";
+    props.merged.hoistedName = path.scope.hasBinding(baseName)
+      ? path.scope.generateUid(baseName)
+      : baseName;
+    locals.markCaptured(props.merged.hoistedName);
+    props.merged.rawName = locals.newLocal("rawProps", []);
+  }
+  for (const setStateSite of states.setStateSites) {
+    for (const propsSite of setStateSite.propsSites) {
+      // props.foo in functional updates refers to the current props
+      const prop = props.props.get(propsSite.name);
+      if (prop) {
+        prop.forceAlias = true;
+      } else {
+        props.props.set(propsSite.name, {
+          sites: [],
+          aliases: [],
+          forceAlias: true,
+        });
+      }
+    }
+  }
+  postAnalyzeCallbackDependencies(userDefined, props, states, context, sites);
+
+  const effects = analyzeEffects(
+    componentDidMount,
+    componentDidUpdate,
+    componentWillUnmount,
+    getSnapshotBeforeUpdate,
+    userDefined,
+    props,
+    states,
+    locals
+  );
+
+  if (effects.prevStates.size > 0 && states.whole) {
+    throw new AnalysisError(
+      "Cannot transform prevState with non-analyzable setState"
+    );
+  }
 
   for (const [name, propAnalysis] of props.props) {
     if (needAlias(propAnalysis)) {
@@ -144,30 +361,91 @@ export function analyzeClass(
       );
     }
   }
-
-  const effects = analyzeEffects(
-    componentDidMount,
-    componentDidUpdate,
-    componentWillUnmount,
-    userDefined
-  );
+  for (const [, propAnalysis] of props.props) {
+    for (const alias of propAnalysis.aliases) {
+      if (alias.copy) {
+        alias.copy.newName = locals.newLocal(
+          alias.localName,
+          alias.scope.getBinding(alias.localName)!.referencePaths
+        );
+      }
+    }
+  }
 
   const render = analyzeRender(renderPath, locals);
 
+  if (context.contextType) {
+    context.localName = locals.newLocal(
+      "context",
+      context.sites.map((site) => site.path)
+    );
+  }
+  for (const [key, consumer] of context.legacyConsumers) {
+    consumer.localName = locals.newLocal(
+      key,
+      consumer.sites.map((site) => site.path)
+    );
+  }
+
+  if (derivedState) {
+    derivedState.localName = locals.newLocal("derivedState", []);
+    derivedState.prevPropsName = locals.newLocal("prevProps", []);
+  }
   for (const [name, stateAnalysis] of states.states.entries()) {
-    const bindingPaths = stateAnalysis.sites.map((site) => site.path);
+    const bindingPaths = [
+      ...stateAnalysis.sites.map((site) => site.path),
+      ...states.patternSites
+        .filter((site) => site.names.includes(name))
+        .map((site) => site.path),
+    ];
     stateAnalysis.localName = locals.newLocal(name, bindingPaths);
     stateAnalysis.localSetterName = locals.newLocal(
       `set${name.replace(/^[a-z]/, (s) => s.toUpperCase())}`,
       bindingPaths
     );
   }
+  for (const aliasCopy of states.aliasCopies) {
+    aliasCopy.copy.newName = locals.newLocal(
+      aliasCopy.localName,
+      aliasCopy.scope.getBinding(aliasCopy.localName)!.referencePaths
+    );
+  }
+
+  if (states.whole) {
+    const { whole } = states;
+    whole.localName = locals.newLocal(
+      "state",
+      whole.sites.map((site) => site.path)
+    );
+    whole.localSetterName = locals.newLocal(
+      "setState",
+      whole.setStateSites.map((site) => site.path)
+    );
+    whole.localRawSetterName = locals.newLocal("replaceState", []);
+  }
+  for (const [name, stringRef] of stringRefs.refs) {
+    stringRef.localName = locals.newLocal(name, stringRef.sites);
+  }
+  if (forceUpdate.sites.length > 0) {
+    forceUpdate.localName = locals.newLocal("forceUpdate", forceUpdate.sites);
+  }
+  if (states.setStateSites.some((site) => site.callback)) {
+    states.pendingCallbacksName = locals.newLocal("pendingCallbacks", []);
+    states.requestCallbacksName = locals.newLocal("requestCallbacks", []);
+    states.callbacksName = locals.newLocal("callbacks", []);
+  }
 
   for (const [name, field] of userDefined.fields) {
     field.localName = locals.newLocal(
       name,
       field.sites.map((site) => site.path)
     );
+    if (field.type === "user_defined_direct_ref" && field.lazyInit) {
+      field.initFlagName = locals.newLocal(`${name}Initialized`, []);
+    }
+  }
+  if (expose) {
+    expose.refName = locals.newLocal("ref", []);
   }
 
   if (effects.cdmPath || effects.cduPath || effects.cwuPath) {
@@ -176,18 +454,49 @@ export function analyzeClass(
       effects.cleanupLocalName = locals.newLocal("cleanup", []);
     }
   }
+  if (effects.snapshot) {
+    // The parameter of componentDidUpdate is going away, so it does not conflict
+    effects.snapshot.localName = locals.newLocal("snapshot", []);
+  }
+  for (const pairedEffect of effects.pairedEffects) {
+    if (pairedEffect.resource) {
+      pairedEffect.resource.localName = locals.newLocal(
+        pairedEffect.resource.name,
+        []
+      );
+    }
+    for (const listener of pairedEffect.listeners) {
+      listener.refName = locals.newLocal(`${listener.name}Ref`, []);
+      listener.localName = locals.newLocal("listener", []);
+    }
+  }
+  for (const prevValues of [effects.prevProps, effects.prevStates]) {
+    for (const [name, prevValue] of prevValues) {
+      prevValue.localName = locals.newLocal(
+        `prev${name.replace(/^[a-z]/, (s) => s.toUpperCase())}`,
+        prevValue.sites
+      );
+    }
+  }
 
   return {
     name: preanalysis.name,
     typeParameters: preanalysis.typeParameters,
     superClassRef: preanalysis.superClassRef,
     isPure: preanalysis.isPure,
+    memo,
     propsTyping: preanalysis.props,
     locals,
     render,
     state: states,
+    derivedState,
+    forceUpdate,
+    stringRefs,
     props,
+    context,
     userDefined,
+    expose,
+    statics,
     effects,
     bindThisSites,
   };
@@ -225,7 +534,7 @@ function analyzeRender(
 }
 
 function analyzeOuterCapturings(
-  classPath: NodePath<ClassDeclaration>,
+  classPath: NodePath<Class>,
   locals: LocalManager
 ): Set<string> {
   const capturings = new Set<string>();
@@ -251,6 +560,29 @@ function analyzeOuterCapturings(
   return capturings;
 }
 
+function isLiteral(expr: Expression): boolean {
+  switch (expr.type) {
+    case "NullLiteral":
+    case "BooleanLiteral":
+    case "NumericLiteral":
+    case "BigIntLiteral":
+    case "StringLiteral":
+      return true;
+    case "TemplateLiteral":
+      return expr.expressions.length === 0;
+    case "UnaryExpression":
+      // -1
+      return expr.argument.type === "NumericLiteral";
+    case "Identifier":
+      return expr.name === "undefined";
+  }
+  return false;
+}
+
 export function needsProps(analysis: AnalysisResult): boolean {
-  return analysis.props.sites.length > 0;
+  return (
+    analysis.props.sites.length > 0 ||
+    !!analysis.derivedState ||
+    Array.from(analysis.props.props.values()).some((prop) => prop.forceAlias)
+  );
 }
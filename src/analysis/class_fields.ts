@@ -7,8 +7,8 @@ import type { NodePath } from "@babel/core";
 import type {
   AssignmentExpression,
   CallExpression,
+  Class,
   ClassAccessorProperty,
-  ClassDeclaration,
   ClassMethod,
   ClassPrivateMethod,
   ClassPrivateProperty,
@@ -44,6 +44,10 @@ export type ClassFieldsAnalysis = {
   staticFields: Map<string, ClassFieldAnalysis>;
   /** Appearances of `this` as in `this.foo.bind(this)` */
   bindThisSites: BindThisSite[];
+  /** Appearances of `this` in static members, which refer to the class itself */
+  staticThisSites: NodePath<ThisExpression>[];
+  /** Assignments to static fields after the class, as in `C.defaultProps = {};`, to be removed */
+  externalStaticStmts: NodePath<ExpressionStatement>[];
 };
 
 /**
@@ -162,6 +166,15 @@ export type BindThisSite = {
   isSelfBindingInitialization: boolean;
 };
 
+/**
+ * Static fields that are often assigned outside the class, as in `C.defaultProps = {};`
+ */
+const EXTERNAL_STATIC_NAMES = new Set<string>([
+  "defaultProps",
+  "displayName",
+  "propTypes",
+]);
+
 /**
  * Collect declarations and uses of the following:
  *
@@ -169,7 +182,7 @@ export type BindThisSite = {
  * - Static fields ... `C.foo`, where `C` is the class
  */
 export function analyzeClassFields(
-  path: NodePath<ClassDeclaration>,
+  path: NodePath<Class>,
   softErrors: SoftErrorRepository
 ): ClassFieldsAnalysis {
   const instanceFields = new Map<string, ClassFieldAnalysis>();
@@ -183,6 +196,8 @@ export function analyzeClassFields(
     owner: string | undefined;
     path: NodePath;
   }[] = [];
+  // Bodies of static members, where `this` refers to the class
+  const staticBodies: NodePath[] = [];
   // 1st pass: look for class field definitions
   for (const itemPath of path.get("body").get("body")) {
     if (isNamedClassElement(itemPath)) {
@@ -222,7 +237,9 @@ export function analyzeClassFields(
           hasSideEffect:
             !!itemPath.node.value && estimateSideEffect(itemPath.node.value),
         });
-        if (valuePath) {
+        if (valuePath && isStatic) {
+          staticBodies.push(valuePath);
+        } else if (valuePath) {
           // Initializer should be analyzed in step 2 too (considered to be in the constructor)
           bodies.push({
             owner:
@@ -257,7 +274,9 @@ export function analyzeClassFields(
             hasSideEffect: false,
           });
           // Analysis for step 2
-          if (isClassMethodLike(itemPath)) {
+          if (isClassMethodLike(itemPath) && isStatic) {
+            staticBodies.push(...itemPath.get("params"), itemPath.get("body"));
+          } else if (isClassMethodLike(itemPath)) {
             for (const paramPath of itemPath.get("params")) {
               bodies.push({
                 owner: name,
@@ -291,6 +310,25 @@ export function analyzeClassFields(
     }
   }
 
+  // 1st pass additional work: static fields assigned after the class
+  const externalStaticStmts = collectExternalStaticStmts(path);
+  for (const stmt of externalStaticStmts) {
+    const exprPath = stmt.get("expression") as NodePath<AssignmentExpression>;
+    const name = memberRefName(exprPath.node.left as MemberExpression)!;
+    getStaticField(name).sites.push({
+      type: "decl",
+      path: exprPath,
+      owner: undefined,
+      typing: undefined,
+      init: {
+        type: "init_value",
+        valuePath: exprPath.get("right"),
+      },
+      hasWrite: undefined,
+      hasSideEffect: estimateSideEffect(exprPath.node.right),
+    });
+  }
+
   // 1st pass additional work: field initialization in constructor
   if (constructor) {
     // Only `constructor(props)` is allowed.
@@ -451,6 +489,15 @@ export function analyzeClassFields(
   for (const body of bodies) {
     traverseItem(body.owner, body.path);
   }
+  const staticThisSites: NodePath<ThisExpression>[] = [];
+  for (const body of staticBodies) {
+    if (body.isThisExpression()) {
+      staticThisSites.push(body);
+    }
+    traverseThis(body, (thisPath) => {
+      staticThisSites.push(thisPath);
+    });
+  }
 
   // Special handling for self-binding initialization (`this.foo = this.foo.bind(this)`)
   for (const [name, field] of instanceFields) {
@@ -528,7 +575,84 @@ export function analyzeClassFields(
     }
   }
 
-  return { instanceFields, staticFields, bindThisSites };
+  return {
+    instanceFields,
+    staticFields,
+    bindThisSites,
+    staticThisSites,
+    externalStaticStmts,
+  };
+}
+
+/**
+ * Collects statements like `C.defaultProps = {};` following the class in the same block.
+ */
+function collectExternalStaticStmts(
+  path: NodePath<Class>
+): NodePath<ExpressionStatement>[] {
+  let name: string | undefined = undefined;
+  let stmtPath: NodePath | null = null;
+  if (path.isClassDeclaration() && path.node.id) {
+    // class C extends Component {}
+    name = path.node.id.name;
+    stmtPath = path;
+  } else if (
+    path.parentPath.isVariableDeclarator({ init: path.node }) &&
+    path.parentPath.node.id.type === "Identifier"
+  ) {
+    // const C = class extends Component {};
+    name = path.parentPath.node.id.name;
+    stmtPath = path.getStatementParent();
+  }
+  if (name == null || !stmtPath) {
+    return [];
+  }
+  if (stmtPath.parentPath?.isExportDeclaration()) {
+    stmtPath = stmtPath.parentPath;
+  }
+  const stmts: NodePath<ExpressionStatement>[] = [];
+  for (const siblingPath of stmtPath.getAllNextSiblings()) {
+    if (!siblingPath.isExpressionStatement()) {
+      continue;
+    }
+    const expr = siblingPath.node.expression;
+    if (
+      expr.type === "AssignmentExpression" &&
+      expr.operator === "=" &&
+      expr.left.type === "MemberExpression" &&
+      expr.left.object.type === "Identifier" &&
+      expr.left.object.name === name
+    ) {
+      const fieldName = memberRefName(expr.left);
+      if (fieldName != null && EXTERNAL_STATIC_NAMES.has(fieldName)) {
+        stmts.push(siblingPath);
+      }
+    }
+  }
+  // Fields referenced elsewhere, as in `C.defaultProps.b = 2;`, are left as is
+  // as the assignments may be removed.
+  const referencedFields = new Set<string>();
+  for (const refPath of stmtPath.scope.getBinding(name)?.referencePaths ?? []) {
+    const parentPath = refPath.parentPath;
+    if (
+      parentPath?.isMemberExpression({ object: refPath.node }) &&
+      !stmts.some((stmt) => stmt.node.expression === parentPath.parent)
+    ) {
+      const fieldName = memberRefName(parentPath.node);
+      if (fieldName != null) {
+        referencedFields.add(fieldName);
+      }
+    }
+  }
+  return stmts.filter(
+    (stmt) =>
+      !referencedFields.has(
+        memberRefName(
+          (stmt.node.expression as AssignmentExpression)
+            .left as MemberExpression
+        )!
+      )
+  );
 }
 
 export function addClassFieldError(
@@ -574,13 +698,18 @@ function traverseThis(
   });
 }
 
-function estimateSideEffect(expr: Expression): boolean {
+/**
+ * Conservatively estimates whether evaluating the expression has side effects or is costly.
+ */
+export function estimateSideEffect(expr: Expression): boolean {
   switch (expr.type) {
     case "NullLiteral":
     case "BooleanLiteral":
     case "NumericLiteral":
     case "BigIntLiteral":
+    case "StringLiteral":
     case "Identifier":
+    case "ThisExpression":
     case "FunctionExpression":
     case "ArrowFunctionExpression":
       return false;
@@ -628,7 +757,7 @@ function estimateSideEffect(expr: Expression): boolean {
           ? estimateSideEffect(elem.key)
           : elem.key.type === "PrivateName"
           ? estimateSideEffect(elem.value as Expression)
-          : estimateSideEffect(elem.key) &&
+          : estimateSideEffect(elem.key) ||
             estimateSideEffect(elem.value as Expression)
       );
   }
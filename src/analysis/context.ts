@@ -0,0 +1,360 @@
+import type { NodePath } from "@babel/core";
+import type {
+  ClassMethod,
+  Expression,
+  ReturnStatement,
+  TSType,
+} from "@babel/types";
+import { getOr, memberName } from "../utils.js";
+import { AnalysisError, SoftErrorRepository } from "./error.js";
+import { ClassFieldAnalysis, addClassFieldError } from "./class_fields.js";
+import type { LocalManager } from "./local.js";
+import { trackMember } from "./track_member.js";
+
+/**
+ * Where to find the modern context object that replaces a legacy context key.
+ */
+export type LegacyContextMapping = {
+  /**
+   * The module the context object is imported from, e.g. `"./contexts"`.
+   * It is used verbatim as the import source.
+   */
+  source: string;
+  /**
+   * The exported name of the context object, e.g. `"RouterContext"`.
+   */
+  name: string;
+};
+
+export type ContextObjAnalysis = {
+  /**
+   * The context object, as in `static contextType = ThemeContext`
+   */
+  contextType?: NodePath<Expression> | undefined;
+  /**
+   * The type of the context value, as in `declare context: React.ContextType<typeof ThemeContext>`
+   */
+  typeAnnotation?: NodePath<TSType> | undefined;
+  localName?: string | undefined;
+  sites: ContextSite[];
+  /**
+   * Legacy contexts received via `static contextTypes`, indexed by their keys.
+   */
+  legacyConsumers: Map<string, LegacyContextConsumer>;
+  /**
+   * Legacy contexts provided via `getChildContext`.
+   */
+  legacyProviders: LegacyContextProvider[];
+  /**
+   * Return statements in the render method, to be wrapped in the providers.
+   */
+  renderReturns: NodePath<ReturnStatement>[];
+};
+
+export type ContextSite = {
+  path: NodePath<Expression>;
+  owner: string | undefined;
+};
+
+export type LegacyContextConsumer = {
+  mapping: LegacyContextMapping;
+  localName?: string | undefined;
+  sites: ContextSite[];
+};
+
+export type LegacyContextProvider = {
+  key: string;
+  mapping: LegacyContextMapping;
+  /**
+   * The value as in `getChildContext() { return { key: value }; }`
+   */
+  valuePath: NodePath<Expression>;
+};
+
+/**
+ * Detects the modern context API:
+ *
+ * ```js
+ * static contextType = ThemeContext;
+ * ```
+ *
+ * and collects `this.context` so that they are replaced with the result of `useContext`.
+ *
+ * Legacy contexts (`contextTypes` and `getChildContext`) are also transformed
+ * as long as the keys are mapped to the modern context objects.
+ */
+export function analyzeContext(
+  contextObjAnalysis: ClassFieldAnalysis,
+  contextTypeAnalysis: ClassFieldAnalysis,
+  contextTypesAnalysis: ClassFieldAnalysis,
+  childContextTypesAnalysis: ClassFieldAnalysis,
+  getChildContextAnalysis: ClassFieldAnalysis,
+  renderPath: NodePath<ClassMethod>,
+  legacyContexts: Map<string, LegacyContextMapping>,
+  locals: LocalManager,
+  softErrors: SoftErrorRepository
+): ContextObjAnalysis {
+  for (const site of contextTypeAnalysis.sites) {
+    if (!site.init) {
+      throw new AnalysisError(`Invalid use of static contextType`);
+    }
+  }
+  const legacyProviders = analyzeLegacyProviders(
+    childContextTypesAnalysis,
+    getChildContextAnalysis,
+    legacyContexts,
+    softErrors
+  );
+  const renderReturns: NodePath<ReturnStatement>[] = [];
+  if (legacyProviders.length > 0) {
+    renderPath.get("body").traverse({
+      ReturnStatement(path) {
+        renderReturns.push(path);
+      },
+      Function(path) {
+        path.skip();
+      },
+    });
+  }
+
+  const init = contextTypeAnalysis.sites.find((site) => site.init);
+  const legacyKeys = analyzeContextTypes(contextTypesAnalysis);
+  if (init && legacyKeys) {
+    throw new AnalysisError(`Both contextType and contextTypes are specified`);
+  }
+  if (legacyKeys) {
+    return {
+      sites: [],
+      legacyConsumers: analyzeLegacyConsumers(
+        contextObjAnalysis,
+        legacyKeys,
+        legacyContexts,
+        locals,
+        softErrors
+      ),
+      legacyProviders,
+      renderReturns,
+    };
+  }
+  if (!init) {
+    // `this.context` without `contextType` is meaningless
+    for (const site of contextObjAnalysis.sites) {
+      addClassFieldError(site, softErrors);
+    }
+    return {
+      sites: [],
+      legacyConsumers: new Map(),
+      legacyProviders,
+      renderReturns,
+    };
+  }
+  const init_ = init.init!;
+  if (init_.type !== "init_value") {
+    throw new AnalysisError("Non-analyzable contextType initializer");
+  }
+
+  let typeAnnotation: NodePath<TSType> | undefined = undefined;
+  const sites: ContextSite[] = [];
+  for (const site of contextObjAnalysis.sites) {
+    if (site.type === "decl") {
+      if (site.init) {
+        addClassFieldError(site, softErrors);
+      } else if (site.typing?.type === "type_value") {
+        // declare context: React.ContextType<typeof ThemeContext>;
+        typeAnnotation = site.typing.valueTypePath;
+      }
+      continue;
+    }
+    if (site.hasWrite) {
+      addClassFieldError(site, softErrors);
+      continue;
+    }
+    sites.push({
+      path: site.path,
+      owner: site.owner,
+    });
+  }
+  return {
+    contextType: init_.valuePath,
+    typeAnnotation,
+    sites,
+    legacyConsumers: new Map(),
+    legacyProviders,
+    renderReturns,
+  };
+}
+
+/**
+ * Collects keys from `static contextTypes = { router: PropTypes.object }`
+ */
+function analyzeContextTypes(
+  contextTypesAnalysis: ClassFieldAnalysis
+): Set<string> | undefined {
+  for (const site of contextTypesAnalysis.sites) {
+    if (!site.init) {
+      throw new AnalysisError(`Invalid use of static contextTypes`);
+    }
+  }
+  const init = contextTypesAnalysis.sites.find((site) => site.init);
+  if (!init) {
+    return;
+  }
+  const init_ = init.init!;
+  if (init_.type !== "init_value" || !init_.valuePath.isObjectExpression()) {
+    throw new AnalysisError("Non-analyzable contextTypes initializer");
+  }
+  const keys = new Set<string>();
+  for (const fieldPath of init_.valuePath.get("properties")) {
+    if (!fieldPath.isObjectProperty()) {
+      throw new AnalysisError("Non-analyzable contextTypes initializer");
+    }
+    const key = memberName(fieldPath.node);
+    if (key == null) {
+      throw new AnalysisError("Non-analyzable contextTypes initializer");
+    }
+    keys.add(key);
+  }
+  return keys;
+}
+
+function analyzeLegacyConsumers(
+  contextObjAnalysis: ClassFieldAnalysis,
+  legacyKeys: Set<string>,
+  legacyContexts: Map<string, LegacyContextMapping>,
+  locals: LocalManager,
+  softErrors: SoftErrorRepository
+): Map<string, LegacyContextConsumer> {
+  const consumers = new Map<string, LegacyContextConsumer>();
+  const isMapped = (key: string) =>
+    legacyKeys.has(key) && legacyContexts.has(key);
+  const getConsumer = (key: string) =>
+    getOr(consumers, key, () => ({
+      mapping: legacyContexts.get(key)!,
+      sites: [],
+    }));
+  for (const site of contextObjAnalysis.sites) {
+    if (site.type !== "expr" || site.hasWrite) {
+      addClassFieldError(site, softErrors);
+      continue;
+    }
+    const memberAnalysis = trackMember(site.path);
+    if (memberAnalysis.fullyDecomposed && memberAnalysis.memberAliases) {
+      // const { router } = this.context;
+      if (
+        !Array.from(memberAnalysis.memberAliases.keys()).every((key) =>
+          isMapped(key)
+        )
+      ) {
+        addClassFieldError(site, softErrors);
+        continue;
+      }
+      for (const [key, aliasInfo] of memberAnalysis.memberAliases) {
+        const binding = aliasInfo.scope.getBinding(aliasInfo.localName)!;
+        locals.reserveRemoval(binding.path);
+        for (const path of binding.referencePaths) {
+          if (!path.isExpression()) {
+            throw new Error("referencePath contains non-Expression");
+          }
+          getConsumer(key).sites.push({
+            path,
+            owner: site.owner,
+          });
+        }
+      }
+    } else if (
+      memberAnalysis.memberExpr &&
+      isMapped(memberAnalysis.memberExpr.name)
+    ) {
+      // this.context.router
+      getConsumer(memberAnalysis.memberExpr.name).sites.push({
+        path: memberAnalysis.memberExpr.path,
+        owner: site.owner,
+      });
+    } else {
+      addClassFieldError(site, softErrors);
+    }
+  }
+  return consumers;
+}
+
+/**
+ * Detects providers in the form of:
+ *
+ * ```js
+ * getChildContext() {
+ *   return { router: this.router };
+ * }
+ * ```
+ */
+function analyzeLegacyProviders(
+  childContextTypesAnalysis: ClassFieldAnalysis,
+  getChildContextAnalysis: ClassFieldAnalysis,
+  legacyContexts: Map<string, LegacyContextMapping>,
+  softErrors: SoftErrorRepository
+): LegacyContextProvider[] {
+  for (const site of childContextTypesAnalysis.sites) {
+    if (!site.init) {
+      throw new AnalysisError(`Invalid use of static childContextTypes`);
+    }
+  }
+  const providers = getChildContextProviders(
+    getChildContextAnalysis,
+    legacyContexts
+  );
+  if (!providers) {
+    for (const site of getChildContextAnalysis.sites) {
+      addClassFieldError(site, softErrors);
+    }
+    return [];
+  }
+  return providers;
+}
+
+function getChildContextProviders(
+  getChildContextAnalysis: ClassFieldAnalysis,
+  legacyContexts: Map<string, LegacyContextMapping>
+): LegacyContextProvider[] | undefined {
+  if (getChildContextAnalysis.sites.length === 0) {
+    return [];
+  }
+  if (getChildContextAnalysis.sites.length > 1) {
+    // Called by the user
+    return;
+  }
+  const site = getChildContextAnalysis.sites[0]!;
+  if (site.init?.type !== "init_method") {
+    return;
+  }
+  const stmts = site.init.methodPath.get("body").get("body");
+  if (stmts.length !== 1) {
+    return;
+  }
+  const stmt = stmts[0]!;
+  if (!stmt.isReturnStatement()) {
+    return;
+  }
+  const argPath = stmt.get("argument");
+  if (!argPath.isObjectExpression()) {
+    return;
+  }
+  const providers: LegacyContextProvider[] = [];
+  for (const fieldPath of argPath.get("properties")) {
+    if (!fieldPath.isObjectProperty()) {
+      return;
+    }
+    const key = memberName(fieldPath.node);
+    if (key == null || !legacyContexts.has(key)) {
+      return;
+    }
+    const valuePath = fieldPath.get("value");
+    if (!valuePath.isExpression()) {
+      return;
+    }
+    providers.push({
+      key,
+      mapping: legacyContexts.get(key)!,
+      valuePath,
+    });
+  }
+  return providers;
+}
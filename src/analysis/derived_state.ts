@@ -0,0 +1,139 @@
+import type { NodePath } from "@babel/core";
+import type {
+  ArrowFunctionExpression,
+  ClassMethod,
+  Expression,
+  FunctionExpression,
+} from "@babel/types";
+import { memberName } from "../utils.js";
+import { AnalysisError } from "./error.js";
+import type { ClassFieldAnalysis } from "./class_fields.js";
+import type { StateObjAnalysis } from "./state.js";
+import { trackMember } from "./track_member.js";
+
+export type DerivedStateAnalysis = {
+  /**
+   * The function, to be hoisted out of the component
+   */
+  path: NodePath<ClassMethod | FunctionExpression | ArrowFunctionExpression>;
+  /**
+   * Name of the hoisted function
+   */
+  hoistedName?: string | undefined;
+  /**
+   * Name of the variable holding the partial state returned from the function
+   */
+  localName?: string | undefined;
+  /**
+   * Name of the ref holding the props the function was last called with
+   */
+  prevPropsName?: string | undefined;
+};
+
+/**
+ * Analyzes `static getDerivedStateFromProps`, which will be turned into
+ * the "adjusting state during rendering" pattern.
+ *
+ * State keys read from the second parameter or returned from the function
+ * are registered to the state analysis.
+ */
+export function analyzeDerivedState(
+  getDerivedStateFromProps: ClassFieldAnalysis,
+  states: StateObjAnalysis
+): DerivedStateAnalysis | undefined {
+  if (getDerivedStateFromProps.sites.length === 0) {
+    return;
+  }
+  if (getDerivedStateFromProps.sites.some((site) => !site.init)) {
+    throw new AnalysisError("Invalid use of static getDerivedStateFromProps");
+  }
+  const init = getDerivedStateFromProps.sites[0]!.init!;
+  let path: DerivedStateAnalysis["path"];
+  if (init.type === "init_method" && init.methodPath.isClassMethod()) {
+    path = init.methodPath;
+  } else if (
+    init.type === "init_value" &&
+    (init.valuePath.isFunctionExpression() ||
+      init.valuePath.isArrowFunctionExpression())
+  ) {
+    path = init.valuePath;
+  } else {
+    throw new AnalysisError(
+      "Non-analyzable getDerivedStateFromProps initializer"
+    );
+  }
+  if (path.node.async || path.node.generator) {
+    throw new AnalysisError(
+      "Non-analyzable getDerivedStateFromProps initializer"
+    );
+  }
+
+  const keys = new Set<string>();
+  const stateParam = path.get("params")[1];
+  if (stateParam?.isIdentifier()) {
+    // prevState.foo
+    const binding = stateParam.scope.getBinding(stateParam.node.name)!;
+    for (const refPath of binding.referencePaths) {
+      const memberAnalysis = trackMember(refPath as NodePath<Expression>);
+      if (memberAnalysis.memberExpr) {
+        keys.add(memberAnalysis.memberExpr.name);
+      }
+      for (const name of memberAnalysis.pattern?.keys ??
+        memberAnalysis.memberAliases?.keys() ??
+        []) {
+        keys.add(name);
+      }
+    }
+  }
+  const body = path.get("body");
+  if (body.isBlockStatement()) {
+    // return { foo: ... };
+    body.traverse({
+      ReturnStatement(returnPath) {
+        const argPath = returnPath.get("argument");
+        if (argPath.isExpression()) {
+          addReturnedKeys(argPath, keys);
+        }
+      },
+      Function(fnPath) {
+        fnPath.skip();
+      },
+    });
+  } else if (body.isExpression()) {
+    addReturnedKeys(body, keys);
+  }
+  for (const key of keys) {
+    if (!states.states.has(key)) {
+      states.states.set(key, { sites: [] });
+    }
+  }
+  return { path };
+}
+
+/**
+ * Collects state keys from a returned value, which should be `null` or an object literal with static keys.
+ */
+function addReturnedKeys(path: NodePath<Expression>, keys: Set<string>) {
+  if (path.isConditionalExpression()) {
+    addReturnedKeys(path.get("consequent"), keys);
+    addReturnedKeys(path.get("alternate"), keys);
+  } else if (path.isObjectExpression()) {
+    for (const property of path.node.properties) {
+      const name =
+        property.type === "ObjectProperty" ? memberName(property) : undefined;
+      if (name == null) {
+        throw new AnalysisError(
+          "Non-analyzable state update in getDerivedStateFromProps"
+        );
+      }
+      keys.add(name);
+    }
+  } else if (
+    !path.isNullLiteral() &&
+    !path.isIdentifier({ name: "undefined" })
+  ) {
+    throw new AnalysisError(
+      "Non-analyzable state update in getDerivedStateFromProps"
+    );
+  }
+}
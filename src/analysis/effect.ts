@@ -1,8 +1,26 @@
-import type { ClassMethod } from "@babel/types";
+import type {
+  ClassMethod,
+  Expression,
+  ExpressionStatement,
+  IfStatement,
+  MemberExpression,
+  Node,
+  Statement,
+  TSType,
+} from "@babel/types";
 import type { NodePath } from "@babel/traverse";
+import { getOr, memberName, memberRefName, nonNullPath } from "../utils.js";
 import type { ClassFieldAnalysis } from "./class_fields.js";
 import { AnalysisError } from "./error.js";
-import type { UserDefinedAnalysis } from "./user_defined.js";
+import type { LocalManager } from "./local.js";
+import type { PropsObjAnalysis } from "./prop.js";
+import type { StateObjAnalysis } from "./state.js";
+import { trackMember } from "./track_member.js";
+import type {
+  CallbackDependencyPropAlias,
+  CallbackDependencyState,
+  UserDefinedAnalysis,
+} from "./user_defined.js";
 
 export type EffectAnalysis = {
   cdmPath: NodePath<ClassMethod> | undefined;
@@ -10,16 +28,146 @@ export type EffectAnalysis = {
   cwuPath: NodePath<ClassMethod> | undefined;
   isMountedLocalName?: string | undefined;
   cleanupLocalName?: string | undefined;
+  /**
+   * Previous values of props referenced via the first parameter of componentDidUpdate
+   */
+  prevProps: Map<string, PrevValueAnalysis>;
+  /**
+   * Previous values of states referenced via the second parameter of componentDidUpdate
+   */
+  prevStates: Map<string, PrevValueAnalysis>;
+  /**
+   * Leading statements of componentDidUpdate guarded by comparison with the previous values,
+   * to be transformed to separate effects with dependency arrays
+   */
+  guardedEffects: GuardedEffect[];
+  /**
+   * Resources acquired in componentDidMount and released in componentWillUnmount,
+   * to be transformed to separate effects with cleanup functions
+   */
+  pairedEffects: PairedEffect[];
+  /**
+   * Set if getSnapshotBeforeUpdate is present
+   */
+  snapshot?: SnapshotAnalysis | undefined;
 };
+
+/**
+ * getSnapshotBeforeUpdate, to be evaluated during rendering
+ * so that it observes the DOM before mutation.
+ */
+export type SnapshotAnalysis = {
+  path: NodePath<ClassMethod>;
+  /**
+   * Name of the ref to pass the snapshot to componentDidUpdate
+   */
+  localName?: string | undefined;
+  typeAnnotation?: NodePath<TSType> | undefined;
+  /**
+   * References to the third parameter of componentDidUpdate
+   */
+  sites: NodePath<Expression>[];
+};
+
+/**
+ * A pair of statements like:
+ *
+ * ```js
+ * componentDidMount() {
+ *   window.addEventListener("resize", this.onResize);
+ * }
+ * componentWillUnmount() {
+ *   window.removeEventListener("resize", this.onResize);
+ * }
+ * ```
+ */
+export type PairedEffect = {
+  acquirePath: NodePath<ExpressionStatement>;
+  releasePath: NodePath<ExpressionStatement>;
+  /**
+   * Set if the resource is held in a field, as in `this.timer = setInterval(...)`.
+   * The field is turned into a local variable in the effect.
+   */
+  resource?: PairedResource | undefined;
+  /**
+   * Listeners depending on props or states, as in `this.onResize` or `setInterval(this.tick, 1000)`.
+   * They are routed through refs so that the registered functions stay the same.
+   */
+  listeners: PairedListener[];
+};
+
+export type PairedResource = {
+  name: string;
+  localName?: string | undefined;
+  /**
+   * The value as in `this.timer = setInterval(...)`
+   */
+  valuePath: NodePath<Expression>;
+  /**
+   * `this.timer` in componentWillUnmount
+   */
+  releaseSites: NodePath<MemberExpression>[];
+};
+
+export type PairedListener = {
+  name: string;
+  /**
+   * Name of the ref holding the latest listener
+   */
+  refName?: string | undefined;
+  /**
+   * Name of the stable function registered as the listener
+   */
+  localName?: string | undefined;
+  /**
+   * `this.onResize` in the statements
+   */
+  sites: NodePath<Expression>[];
+};
+
+/**
+ * A statement in componentDidUpdate like:
+ *
+ * ```js
+ * if (prevProps.id !== this.props.id) {
+ *   this.fetch();
+ * }
+ * ```
+ */
+export type GuardedEffect = {
+  path: NodePath<IfStatement>;
+  dependencies: GuardDependency[];
+};
+
+export type GuardDependency =
+  | CallbackDependencyPropAlias
+  | CallbackDependencyState;
+
+export type PrevValueAnalysis = {
+  /**
+   * Name of the ref to remember the value
+   */
+  localName?: string | undefined;
+  /**
+   * Expressions to be replaced with the ref, e.g. `prevProps.foo`
+   */
+  sites: NodePath<Expression>[];
+};
+
 export function analyzeEffects(
   componentDidMount: ClassFieldAnalysis,
   componentDidUpdate: ClassFieldAnalysis,
   componentWillUnmount: ClassFieldAnalysis,
-  userDefined: UserDefinedAnalysis
+  getSnapshotBeforeUpdate: ClassFieldAnalysis,
+  userDefined: UserDefinedAnalysis,
+  props: PropsObjAnalysis,
+  states: StateObjAnalysis,
+  locals: LocalManager
 ): EffectAnalysis {
   const cdmInit = componentDidMount.sites.find((site) => site.init);
   const cduInit = componentDidUpdate.sites.find((site) => site.init);
   const cwuInit = componentWillUnmount.sites.find((site) => site.init);
+  const gsbuInit = getSnapshotBeforeUpdate.sites.find((site) => site.init);
   if (componentDidMount.sites.some((site) => !site.init)) {
     throw new AnalysisError("Do not use componentDidMount by yourself");
   }
@@ -29,9 +177,14 @@ export function analyzeEffects(
   if (componentWillUnmount.sites.some((site) => !site.init)) {
     throw new AnalysisError("Do not use componentWillUnmount by yourself");
   }
+  if (getSnapshotBeforeUpdate.sites.some((site) => !site.init)) {
+    throw new AnalysisError("Do not use getSnapshotBeforeUpdate by yourself");
+  }
   let cdmPath: NodePath<ClassMethod> | undefined = undefined;
   let cduPath: NodePath<ClassMethod> | undefined = undefined;
   let cwuPath: NodePath<ClassMethod> | undefined = undefined;
+  const prevProps = new Map<string, PrevValueAnalysis>();
+  const prevStates = new Map<string, PrevValueAnalysis>();
   if (cdmInit) {
     if (!cdmInit.path.isClassMethod()) {
       throw new AnalysisError("Not a class method: componentDidMount");
@@ -45,11 +198,59 @@ export function analyzeEffects(
     if (!cduInit.path.isClassMethod()) {
       throw new AnalysisError("Not a class method: componentDidUpdate");
     }
-    if (cduInit.path.node.params.length > 0) {
-      throw new AnalysisError("Not supported: componentDidUpdate parameters");
+    const params = cduInit.path.get("params");
+    if (params.length > 3) {
+      throw new AnalysisError("Invalid parameter of componentDidUpdate");
+    }
+    if (params[0]) {
+      analyzePrevValues(params[0], "componentDidUpdate", prevProps, locals);
+    }
+    if (params[1]) {
+      analyzePrevValues(params[1], "componentDidUpdate", prevStates, locals);
     }
     cduPath = cduInit.path;
   }
+  let snapshot: SnapshotAnalysis | undefined = undefined;
+  if (gsbuInit) {
+    if (!gsbuInit.path.isClassMethod()) {
+      throw new AnalysisError("Not a class method: getSnapshotBeforeUpdate");
+    }
+    if (!cduPath) {
+      throw new AnalysisError(
+        "getSnapshotBeforeUpdate without componentDidUpdate"
+      );
+    }
+    const params = gsbuInit.path.get("params");
+    if (params.length > 2) {
+      throw new AnalysisError("Invalid parameter of getSnapshotBeforeUpdate");
+    }
+    if (params[0]) {
+      analyzePrevValues(
+        params[0],
+        "getSnapshotBeforeUpdate",
+        prevProps,
+        locals
+      );
+    }
+    if (params[1]) {
+      analyzePrevValues(
+        params[1],
+        "getSnapshotBeforeUpdate",
+        prevStates,
+        locals
+      );
+    }
+    snapshot = analyzeSnapshot(gsbuInit.path, cduPath);
+  } else if (cduPath && cduPath.node.params.length > 2) {
+    throw new AnalysisError(
+      "componentDidUpdate snapshot without getSnapshotBeforeUpdate"
+    );
+  }
+  // With a snapshot, componentDidUpdate needs to run synchronously as a whole
+  const guardedEffects =
+    cduPath && !snapshot
+      ? analyzeGuardedEffects(cduPath, props, states, prevProps, prevStates)
+      : [];
   if (cwuInit) {
     if (!cwuInit.path.isClassMethod()) {
       throw new AnalysisError("Not a class method: componentWillUnmount");
@@ -59,6 +260,29 @@ export function analyzeEffects(
     }
     cwuPath = cwuInit.path;
   }
+  const pairedEffects =
+    cdmPath && cwuPath
+      ? analyzePairedEffects(cdmPath, cwuPath, userDefined)
+      : [];
+  const pairedNodes = new Set<Node>(
+    pairedEffects.flatMap((pair) => [
+      pair.acquirePath.node,
+      pair.releasePath.node,
+    ])
+  );
+  if (
+    cdmPath &&
+    cdmPath.node.body.body.every((stmt) => pairedNodes.has(stmt))
+  ) {
+    // Everything is moved to the paired effects
+    cdmPath = undefined;
+  }
+  if (
+    cwuPath &&
+    cwuPath.node.body.body.every((stmt) => pairedNodes.has(stmt))
+  ) {
+    cwuPath = undefined;
+  }
 
   for (const [name, field] of userDefined.fields) {
     if (
@@ -67,7 +291,8 @@ export function analyzeEffects(
         (site) =>
           site.type === "expr" &&
           site.owner === "componentWillUnmount" &&
-          !site.path.parentPath.isCallExpression()
+          !site.path.parentPath.isCallExpression() &&
+          !site.path.findParent((path) => pairedNodes.has(path.node))
       )
     ) {
       // A user-defined function is used without immediately calling in componentWillUnmount.
@@ -88,17 +313,604 @@ export function analyzeEffects(
       // It may break in our "raw effect" transformation
       // because function identity may change over time.
       //
-      // We will implement a separate paths for the patterns above,
-      // but for now we just error out to avoid risks.
+      // The simple cases are handled by analyzePairedEffects above;
+      // for the rest we just error out to avoid risks.
 
       throw new AnalysisError(
         `Possible event unregistration of ${name} in componentWillUnmount`
       );
     }
   }
+  for (const [name] of prevProps) {
+    // We need the current value to remember it later
+    const prop = props.props.get(name);
+    if (prop) {
+      prop.forceAlias = true;
+    } else {
+      props.props.set(name, {
+        sites: [],
+        aliases: [],
+        forceAlias: true,
+      });
+    }
+  }
+  for (const [name] of prevStates) {
+    if (!states.states.has(name)) {
+      states.states.set(name, { sites: [] });
+    }
+  }
   return {
     cdmPath,
     cduPath,
     cwuPath,
+    prevProps,
+    prevStates,
+    guardedEffects,
+    pairedEffects,
+    snapshot,
   };
 }
+
+function analyzeSnapshot(
+  gsbuPath: NodePath<ClassMethod>,
+  cduPath: NodePath<ClassMethod>
+): SnapshotAnalysis {
+  const sites: NodePath<Expression>[] = [];
+  // The type as in `getSnapshotBeforeUpdate(): number | null`
+  let typeAnnotation = nonNullPath(gsbuPath.get("returnType"));
+  const param = cduPath.get("params")[2];
+  if (param) {
+    if (!param.isIdentifier()) {
+      throw new AnalysisError("Non-analyzable parameter of componentDidUpdate");
+    }
+    // The type as in `componentDidUpdate(prevProps, prevState, snapshot: number | null)`
+    typeAnnotation ??= nonNullPath(param.get("typeAnnotation"));
+    const binding = param.scope.getBinding(param.node.name)!;
+    if (binding.constantViolations.length > 0) {
+      throw new AnalysisError(
+        `Non-analyzable use of ${param.node.name} in componentDidUpdate`
+      );
+    }
+    for (const path of binding.referencePaths) {
+      if (!path.isExpression()) {
+        throw new Error("referencePath contains non-Expression");
+      }
+      sites.push(path);
+    }
+  }
+  return {
+    path: gsbuPath,
+    typeAnnotation: typeAnnotation?.isTSTypeAnnotation()
+      ? typeAnnotation.get("typeAnnotation")
+      : undefined,
+    sites,
+  };
+}
+
+const TIMER_RELEASES = new Map<string, string>([
+  ["setInterval", "clearInterval"],
+  ["setTimeout", "clearTimeout"],
+]);
+
+type AcquireCandidate =
+  | {
+      type: "listener";
+      path: NodePath<ExpressionStatement>;
+      target: Node;
+      eventType: Node;
+      listenerName: string;
+      listenerPath: NodePath<Expression>;
+    }
+  | {
+      type: "resource";
+      path: NodePath<ExpressionStatement>;
+      name: string;
+      /**
+       * The function to release the resource, or undefined if the resource itself is the disposer
+       */
+      releaseName: string | undefined;
+      valuePath: NodePath<Expression>;
+      /**
+       * Methods passed to the acquiring function, as in `setInterval(this.tick, 1000)`
+       */
+      functionArgs: { name: string; path: NodePath<Expression> }[];
+    };
+
+/**
+ * Finds statements in componentDidMount and componentWillUnmount that can be paired:
+ *
+ * - `target.addEventListener(type, this.listener)` and `target.removeEventListener(type, this.listener)`
+ * - `this.timer = setInterval(...)` and `clearInterval(this.timer)` (as well as `setTimeout`)
+ * - `this.unsubscribe = store.subscribe(...)` and `this.unsubscribe()`
+ */
+function analyzePairedEffects(
+  cdmPath: NodePath<ClassMethod>,
+  cwuPath: NodePath<ClassMethod>,
+  userDefined: UserDefinedAnalysis
+): PairedEffect[] {
+  const candidates: AcquireCandidate[] = [];
+  for (const stmt of cdmPath.get("body").get("body")) {
+    const candidate = analyzeAcquire(stmt, userDefined);
+    if (candidate) {
+      candidates.push(candidate);
+    }
+  }
+
+  const pairedEffects: PairedEffect[] = [];
+  for (const stmt of cwuPath.get("body").get("body")) {
+    if (!stmt.isExpressionStatement()) {
+      continue;
+    }
+    const exprPath = stmt.get("expression");
+    if (!exprPath.isCallExpression()) {
+      continue;
+    }
+    const callee = exprPath.node.callee;
+    const args = exprPath.get("arguments");
+    const index = candidates.findIndex((candidate) => {
+      if (candidate.type === "listener") {
+        // target.removeEventListener(type, this.listener)
+        return (
+          callee.type === "MemberExpression" &&
+          memberRefName(callee) === "removeEventListener" &&
+          isSameReference(callee.object, candidate.target) &&
+          args.length >= 2 &&
+          isSameReference(args[0]!.node, candidate.eventType) &&
+          thisMemberName(args[1]!.node) === candidate.listenerName
+        );
+      } else if (candidate.releaseName != null) {
+        // clearInterval(this.timer)
+        return (
+          globalFunctionName(callee) === candidate.releaseName &&
+          args.length === 1 &&
+          thisMemberName(args[0]!.node) === candidate.name
+        );
+      } else {
+        // this.unsubscribe()
+        return (
+          thisMemberName(callee) === candidate.name &&
+          exprPath.node.arguments.length === 0
+        );
+      }
+    });
+    if (index < 0) {
+      continue;
+    }
+    const candidate = candidates.splice(index, 1)[0]!;
+    if (candidate.type === "listener") {
+      const field = userDefined.fields.get(candidate.listenerName)!;
+      pairedEffects.push({
+        acquirePath: candidate.path,
+        releasePath: stmt,
+        listeners:
+          field.type === "user_defined_function" &&
+          field.dependencies.length > 0
+            ? [
+                {
+                  name: candidate.listenerName,
+                  sites: [
+                    candidate.listenerPath,
+                    args[1] as NodePath<Expression>,
+                  ],
+                },
+              ]
+            : [],
+      });
+    } else {
+      const field = userDefined.fields.get(candidate.name)!;
+      const releaseSites = field.sites.flatMap((site) =>
+        site.type === "expr" && site.path.findParent((p) => p === stmt)
+          ? [site.path]
+          : []
+      );
+      const isLocal = field.sites.every(
+        (site) =>
+          site.type === "decl" ||
+          site.path.findParent((p) => p === candidate.path) ||
+          releaseSites.includes(site.path)
+      );
+      if (field.type !== "user_defined_direct_ref" || !isLocal) {
+        // The resource is referenced elsewhere
+        continue;
+      }
+      userDefined.fields.delete(candidate.name);
+      pairedEffects.push({
+        acquirePath: candidate.path,
+        releasePath: stmt,
+        resource: {
+          name: candidate.name,
+          valuePath: candidate.valuePath,
+          releaseSites,
+        },
+        listeners: candidate.functionArgs.flatMap(({ name, path }) => {
+          const argField = userDefined.fields.get(name)!;
+          return argField.type === "user_defined_function" &&
+            argField.dependencies.length > 0
+            ? [{ name, sites: [path] }]
+            : [];
+        }),
+      });
+    }
+  }
+  return pairedEffects;
+}
+
+function analyzeAcquire(
+  stmt: NodePath<Statement>,
+  userDefined: UserDefinedAnalysis
+): AcquireCandidate | undefined {
+  if (!stmt.isExpressionStatement()) {
+    return;
+  }
+  const exprPath = stmt.get("expression");
+  if (exprPath.isCallExpression()) {
+    // target.addEventListener(type, this.listener)
+    const callee = exprPath.node.callee;
+    const args = exprPath.get("arguments");
+    if (
+      callee.type !== "MemberExpression" ||
+      memberRefName(callee) !== "addEventListener" ||
+      args.length < 2
+    ) {
+      return;
+    }
+    const listenerName = thisMemberName(args[1]!.node);
+    if (
+      listenerName == null ||
+      userDefined.fields.get(listenerName)?.type !== "user_defined_function"
+    ) {
+      return;
+    }
+    return {
+      type: "listener",
+      path: stmt,
+      target: callee.object,
+      eventType: args[0]!.node,
+      listenerName,
+      listenerPath: args[1] as NodePath<Expression>,
+    };
+  } else if (exprPath.isAssignmentExpression({ operator: "=" })) {
+    // this.timer = setInterval(...)
+    const name = thisMemberName(exprPath.node.left);
+    const valuePath = exprPath.get("right");
+    if (name == null || !valuePath.isCallExpression()) {
+      return;
+    }
+    if (capturesRenderValues(valuePath, userDefined)) {
+      // setInterval(() => this.props.onTick(), 1000)
+      // The closure would see the values of the first render
+      return;
+    }
+    const functionArgs: { name: string; path: NodePath<Expression> }[] = [];
+    for (const argPath of valuePath.get("arguments")) {
+      // setInterval(this.tick, 1000)
+      const argName = thisMemberName(argPath.node);
+      if (
+        argName != null &&
+        userDefined.fields.get(argName)?.type === "user_defined_function"
+      ) {
+        functionArgs.push({
+          name: argName,
+          path: argPath as NodePath<Expression>,
+        });
+      }
+    }
+    const calleeName = globalFunctionName(valuePath.node.callee);
+    return {
+      type: "resource",
+      path: stmt,
+      name,
+      releaseName:
+        calleeName != null && TIMER_RELEASES.has(calleeName)
+          ? TIMER_RELEASES.get(calleeName)
+          : undefined,
+      valuePath,
+      functionArgs,
+    };
+  }
+}
+
+/**
+ * Checks if a function inside the expression refers to props, states, or functions depending on them,
+ * as in `() => this.props.onTick()`. Refs and functions without dependencies are fine, as in `() => this.tick()`.
+ */
+function capturesRenderValues(
+  path: NodePath<Expression>,
+  userDefined: UserDefinedAnalysis
+): boolean {
+  let result = false;
+  path.traverse({
+    ThisExpression(thisPath) {
+      if (thisPath.getFunctionParent() === path.getFunctionParent()) {
+        return;
+      }
+      const name = thisMemberName(thisPath.parent);
+      const field = name != null ? userDefined.fields.get(name) : undefined;
+      if (
+        !field ||
+        (field.type === "user_defined_function" &&
+          field.dependencies.length > 0)
+      ) {
+        result = true;
+        thisPath.stop();
+      }
+    },
+  });
+  return result;
+}
+
+/**
+ * Name of a global function reference, like `setInterval` or `window.setInterval`
+ */
+function globalFunctionName(node: Node): string | undefined {
+  if (node.type === "Identifier") {
+    return node.name;
+  } else if (
+    node.type === "MemberExpression" &&
+    node.object.type === "Identifier" &&
+    node.object.name === "window"
+  ) {
+    return memberRefName(node);
+  }
+}
+
+function thisMemberName(node: Node): string | undefined {
+  if (
+    node.type === "MemberExpression" &&
+    node.object.type === "ThisExpression"
+  ) {
+    return memberRefName(node);
+  }
+}
+
+/**
+ * Conservatively checks if two expressions refer to the same thing, like `window` or `this.div.current`.
+ */
+function isSameReference(a: Node, b: Node): boolean {
+  if (a.type === "Identifier" && b.type === "Identifier") {
+    return a.name === b.name;
+  } else if (a.type === "ThisExpression" && b.type === "ThisExpression") {
+    return true;
+  } else if (a.type === "StringLiteral" && b.type === "StringLiteral") {
+    return a.value === b.value;
+  } else if (a.type === "MemberExpression" && b.type === "MemberExpression") {
+    const aName = memberRefName(a);
+    return (
+      aName != null &&
+      aName === memberRefName(b) &&
+      isSameReference(a.object, b.object)
+    );
+  }
+  return false;
+}
+
+/**
+ * Extracts leading `if` statements in componentDidUpdate that only compare previous and current values.
+ *
+ * They are kept in order, so the rest of componentDidUpdate can stay in the raw effect that follows them.
+ * The comparisons are removed from `prevProps` and `prevStates` as they are expressed by dependency arrays.
+ */
+function analyzeGuardedEffects(
+  cduPath: NodePath<ClassMethod>,
+  props: PropsObjAnalysis,
+  states: StateObjAnalysis,
+  prevProps: Map<string, PrevValueAnalysis>,
+  prevStates: Map<string, PrevValueAnalysis>
+): GuardedEffect[] {
+  // Expression nodes that refer to the previous and the current values
+  const prevNodes = new Map<Node, GuardDependency>();
+  const currentNodes = new Map<Node, GuardDependency>();
+  for (const [name, prevValue] of prevProps) {
+    for (const site of prevValue.sites) {
+      prevNodes.set(site.node, { type: "dep_prop_alias", name });
+    }
+  }
+  for (const [name, prevValue] of prevStates) {
+    for (const site of prevValue.sites) {
+      prevNodes.set(site.node, { type: "dep_state", name });
+    }
+  }
+  for (const [name, prop] of props.props) {
+    for (const site of prop.sites) {
+      currentNodes.set(site.path.node, { type: "dep_prop_alias", name });
+    }
+  }
+  for (const [name, state] of states.states) {
+    for (const site of state.sites) {
+      if (site.type === "expr") {
+        currentNodes.set(site.path.node, { type: "dep_state", name });
+      }
+    }
+  }
+
+  const guardedEffects: GuardedEffect[] = [];
+  const guardNodes = new Set<Node>();
+  for (const stmt of cduPath.get("body").get("body")) {
+    const guardedEffect = analyzeGuardedEffect(
+      stmt,
+      cduPath,
+      prevNodes,
+      currentNodes,
+      guardNodes
+    );
+    if (!guardedEffect) {
+      break;
+    }
+    guardedEffects.push(guardedEffect);
+  }
+
+  for (const prevValues of [prevProps, prevStates]) {
+    for (const [name, prevValue] of prevValues) {
+      prevValue.sites = prevValue.sites.filter(
+        (site) => !guardNodes.has(site.node)
+      );
+      if (prevValue.sites.length === 0) {
+        prevValues.delete(name);
+      }
+    }
+  }
+  for (const guardedEffect of guardedEffects) {
+    for (const dep of guardedEffect.dependencies) {
+      if (dep.type === "dep_prop_alias") {
+        // Needed for the dependency array
+        props.props.get(dep.name)!.forceAlias = true;
+      }
+    }
+  }
+  return guardedEffects;
+}
+
+function analyzeGuardedEffect(
+  stmt: NodePath<Statement>,
+  cduPath: NodePath<ClassMethod>,
+  prevNodes: Map<Node, GuardDependency>,
+  currentNodes: Map<Node, GuardDependency>,
+  guardNodes: Set<Node>
+): GuardedEffect | undefined {
+  if (!stmt.isIfStatement() || stmt.node.alternate) {
+    return;
+  }
+  // Returning from the block would skip the rest of componentDidUpdate
+  let hasReturn = false;
+  stmt.get("consequent").traverse({
+    ReturnStatement(path) {
+      if (path.getFunctionParent() === cduPath) {
+        hasReturn = true;
+      }
+    },
+  });
+  if (hasReturn || stmt.get("consequent").isReturnStatement()) {
+    return;
+  }
+
+  // prevProps.foo !== this.props.foo || prevState.bar !== this.state.bar
+  const dependencies: GuardDependency[] = [];
+  if (!analyzeGuard(stmt.get("test"), prevNodes, currentNodes, dependencies)) {
+    return;
+  }
+  guardNodes.add(stmt.node.test);
+  stmt.get("test").traverse({
+    enter(path) {
+      guardNodes.add(path.node);
+    },
+  });
+  return { path: stmt, dependencies };
+}
+
+function analyzeGuard(
+  path: NodePath<Expression>,
+  prevNodes: Map<Node, GuardDependency>,
+  currentNodes: Map<Node, GuardDependency>,
+  dependencies: GuardDependency[]
+): boolean {
+  if (path.isLogicalExpression({ operator: "||" })) {
+    return (
+      analyzeGuard(path.get("left"), prevNodes, currentNodes, dependencies) &&
+      analyzeGuard(path.get("right"), prevNodes, currentNodes, dependencies)
+    );
+  }
+  if (
+    !path.isBinaryExpression() ||
+    (path.node.operator !== "!==" && path.node.operator !== "!=")
+  ) {
+    return false;
+  }
+  const { left, right } = path.node;
+  const dep =
+    matchComparison(left, right, prevNodes, currentNodes) ??
+    matchComparison(right, left, prevNodes, currentNodes);
+  if (!dep) {
+    return false;
+  }
+  if (!dependencies.some((d) => d.type === dep.type && d.name === dep.name)) {
+    dependencies.push(dep);
+  }
+  return true;
+}
+
+function matchComparison(
+  prevNode: Node,
+  currentNode: Node,
+  prevNodes: Map<Node, GuardDependency>,
+  currentNodes: Map<Node, GuardDependency>
+): GuardDependency | undefined {
+  const prevDep = prevNodes.get(prevNode);
+  const currentDep = currentNodes.get(currentNode);
+  if (
+    prevDep &&
+    currentDep &&
+    prevDep.type === currentDep.type &&
+    prevDep.name === currentDep.name
+  ) {
+    return prevDep;
+  }
+  return undefined;
+}
+
+/**
+ * Collects uses of `prevProps` or `prevState` as in `componentDidUpdate(prevProps, prevState)`.
+ * getSnapshotBeforeUpdate receives the same parameters.
+ *
+ * Only member accesses like `prevProps.foo` and decompositions like `const { foo } = prevProps;` are allowed.
+ */
+function analyzePrevValues(
+  paramPath: NodePath,
+  methodName: string,
+  prevValues: Map<string, PrevValueAnalysis>,
+  locals: LocalManager
+) {
+  const addSites = (name: string, paths: NodePath[]) => {
+    const prevValue = getOr(prevValues, name, () => ({ sites: [] }));
+    for (const path of paths) {
+      if (!path.isExpression()) {
+        throw new Error("referencePath contains non-Expression");
+      }
+      prevValue.sites.push(path);
+    }
+  };
+  if (paramPath.isIdentifier()) {
+    const binding = paramPath.scope.getBinding(paramPath.node.name)!;
+    if (binding.constantViolations.length > 0) {
+      throw new AnalysisError(
+        `Non-analyzable use of ${paramPath.node.name} in ${methodName}`
+      );
+    }
+    for (const refPath of binding.referencePaths) {
+      const memberAnalysis = trackMember(refPath as NodePath<Expression>);
+      if (memberAnalysis.fullyDecomposed && memberAnalysis.memberAliases) {
+        // const { foo } = prevProps;
+        for (const [name, aliasInfo] of memberAnalysis.memberAliases) {
+          const aliasBinding = aliasInfo.scope.getBinding(aliasInfo.localName)!;
+          locals.reserveRemoval(aliasBinding.path);
+          addSites(name, aliasBinding.referencePaths);
+        }
+      } else if (memberAnalysis.memberExpr) {
+        // prevProps.foo
+        addSites(memberAnalysis.memberExpr.name, [
+          memberAnalysis.memberExpr.path,
+        ]);
+      } else {
+        throw new AnalysisError(
+          `Non-analyzable use of ${paramPath.node.name} in ${methodName}`
+        );
+      }
+    }
+  } else if (paramPath.isObjectPattern()) {
+    // componentDidUpdate({ foo }) { ... }
+    for (const propPath of paramPath.get("properties")) {
+      const name = propPath.isObjectProperty()
+        ? memberName(propPath.node)
+        : undefined;
+      const valuePath = propPath.isObjectProperty()
+        ? propPath.get("value")
+        : undefined;
+      if (name == null || !valuePath?.isIdentifier()) {
+        throw new AnalysisError(`Non-analyzable parameter of ${methodName}`);
+      }
+      const binding = valuePath.scope.getBinding(valuePath.node.name)!;
+      addSites(name, binding.referencePaths);
+    }
+  } else {
+    throw new AnalysisError(`Non-analyzable parameter of ${methodName}`);
+  }
+}
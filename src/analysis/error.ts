@@ -24,6 +24,10 @@ export type SoftErrorDecl = {
     | TSDeclareMethod
     | ClassAccessorProperty
   >;
+  /**
+   * Explanation to be shown alongside the error, if the reason is known precisely.
+   */
+  reason?: string | undefined;
 };
 
 export class SoftErrorRepository {
@@ -42,11 +46,13 @@ export class SoftErrorRepository {
       | ClassPrivateMethod
       | TSDeclareMethod
       | ClassAccessorProperty
-    >
+    >,
+    reason?: string
   ) {
     this.errors.push({
       type: "invalid_decl",
       path: declPath,
+      reason,
     });
   }
 }
@@ -0,0 +1,313 @@
+import type { NodePath } from "@babel/core";
+import type {
+  ClassDeclaration,
+  Expression,
+  ObjectExpression,
+  ObjectProperty,
+  Statement,
+} from "@babel/types";
+import { isNamedClassElement, memberName, memberRefName } from "../utils.js";
+import { AnalysisError } from "./error.js";
+import { trackMember } from "./track_member.js";
+
+/**
+ * The boundary part of an error boundary component,
+ * to be left in a class while the rest is extracted into a function component.
+ */
+export type ErrorBoundaryAnalysis = {
+  /**
+   * `componentDidCatch` and `static getDerivedStateFromError`
+   */
+  members: NodePath[];
+  /**
+   * States set when an error is caught, e.g. `hasError`
+   */
+  stateKeys: Set<string>;
+  /**
+   * Initializers of the states above, as in `state = { hasError: false }`
+   */
+  stateInits: NodePath<ObjectProperty>[];
+  /**
+   * Leading statements in render that return the fallback UI, as in `if (this.state.hasError) return <Fallback />;`
+   */
+  fallbacks: NodePath<Statement>[];
+};
+
+/**
+ * Returns true if the class looks like an error boundary.
+ */
+export function isErrorBoundary(path: NodePath<ClassDeclaration>): boolean {
+  return path
+    .get("body")
+    .get("body")
+    .some((member) => isBoundaryMember(member));
+}
+
+/**
+ * Partitions an error boundary into the boundary part and the rest.
+ *
+ * ```js
+ * class C extends React.Component {
+ *   state = { hasError: false };
+ *   static getDerivedStateFromError() {
+ *     return { hasError: true };
+ *   }
+ *   render() {
+ *     if (this.state.hasError) {
+ *       return <p>Something went wrong.</p>;
+ *     }
+ *     // ...
+ *   }
+ * }
+ * ```
+ *
+ * The boundary part must only refer to props and its own states.
+ */
+export function analyzeErrorBoundary(
+  path: NodePath<ClassDeclaration>
+): ErrorBoundaryAnalysis {
+  const members: NodePath[] = [];
+  const stateKeys = new Set<string>();
+  const bodyMembers: NodePath[] = [];
+  let renderPath: NodePath | undefined = undefined;
+  for (const member of path.get("body").get("body")) {
+    if (isBoundaryMember(member)) {
+      members.push(member);
+      collectBoundaryStateKeys(member, stateKeys);
+    } else {
+      bodyMembers.push(member);
+      if (
+        member.isClassMethod() &&
+        !member.node.static &&
+        memberName(member.node) === "render"
+      ) {
+        renderPath = member;
+      }
+    }
+  }
+  for (const member of members) {
+    member.traverse({
+      ThisExpression(thisPath) {
+        const memberPath = thisPath.parentPath;
+        const name = memberPath.isMemberExpression({ object: thisPath.node })
+          ? memberRefName(memberPath.node)
+          : undefined;
+        if (name !== "props" && name !== "setState") {
+          throw new AnalysisError(
+            `Error boundary refers to ${name != null ? `this.${name}` : "this"}`
+          );
+        }
+      },
+    });
+  }
+  if (!renderPath?.isClassMethod()) {
+    throw new AnalysisError(`Missing render method`);
+  }
+
+  // if (this.state.hasError) { return <Fallback />; }
+  const fallbacks: NodePath<Statement>[] = [];
+  for (const stmt of renderPath.get("body").get("body")) {
+    if (!isFallback(stmt, stateKeys)) {
+      break;
+    }
+    fallbacks.push(stmt);
+  }
+
+  // The boundary states should not leak into the rest of the component
+  const fallbackNodes = new Set(fallbacks.map((stmt) => stmt.node));
+  for (const member of bodyMembers) {
+    member.traverse({
+      ThisExpression(thisPath) {
+        if (
+          thisPath.findParent((p) => fallbackNodes.has(p.node as Statement))
+        ) {
+          return;
+        }
+        for (const name of stateNamesOf(thisPath)) {
+          if (stateKeys.has(name)) {
+            throw new AnalysisError(
+              `Error boundary state ${name} is used outside the fallback`
+            );
+          }
+        }
+      },
+    });
+  }
+
+  const stateInits: NodePath<ObjectProperty>[] = [];
+  const stateInit = findStateInit(path);
+  for (const propPath of stateInit?.get("properties") ?? []) {
+    if (propPath.isObjectProperty()) {
+      const name = memberName(propPath.node);
+      if (name != null && stateKeys.has(name)) {
+        stateInits.push(propPath);
+      }
+    }
+  }
+  return { members, stateKeys, stateInits, fallbacks };
+}
+
+function isBoundaryMember(member: NodePath): boolean {
+  if (!isNamedClassElement(member)) {
+    return false;
+  }
+  const name = memberName(member.node);
+  return member.node.static
+    ? name === "getDerivedStateFromError"
+    : name === "componentDidCatch";
+}
+
+/**
+ * Collects keys from `return { hasError: true };` and `this.setState({ hasError: true });`
+ */
+function collectBoundaryStateKeys(member: NodePath, stateKeys: Set<string>) {
+  const addKeys = (objPath: NodePath<ObjectExpression>) => {
+    for (const propPath of objPath.get("properties")) {
+      const name = propPath.isObjectProperty()
+        ? memberName(propPath.node)
+        : undefined;
+      if (name == null) {
+        throw new AnalysisError("Non-analyzable error boundary state");
+      }
+      stateKeys.add(name);
+    }
+  };
+  const isStatic = isNamedClassElement(member) && member.node.static;
+  member.traverse({
+    ReturnStatement(returnPath) {
+      const fnPath = returnPath.getFunctionParent();
+      if (!isStatic || (fnPath !== member && fnPath?.parentPath !== member)) {
+        return;
+      }
+      const argPath = returnPath.get("argument");
+      if (argPath.isObjectExpression()) {
+        addKeys(argPath);
+      } else if (argPath.node && !argPath.isNullLiteral()) {
+        throw new AnalysisError("Non-analyzable getDerivedStateFromError");
+      }
+    },
+    ArrowFunctionExpression(arrowPath) {
+      // static getDerivedStateFromError = () => ({ hasError: true });
+      const bodyPath = arrowPath.get("body");
+      if (isStatic && arrowPath.parentPath === member) {
+        if (bodyPath.isObjectExpression()) {
+          addKeys(bodyPath);
+        } else if (!bodyPath.isBlockStatement()) {
+          throw new AnalysisError("Non-analyzable getDerivedStateFromError");
+        }
+      }
+    },
+    CallExpression(callPath) {
+      // this.setState({ hasError: true });
+      const callee = callPath.node.callee;
+      if (
+        callee.type === "MemberExpression" &&
+        callee.object.type === "ThisExpression" &&
+        memberRefName(callee) === "setState"
+      ) {
+        const argPath = callPath.get("arguments")[0];
+        if (!argPath?.isObjectExpression()) {
+          throw new AnalysisError("Non-analyzable setState in error boundary");
+        }
+        addKeys(argPath);
+      }
+    },
+  });
+}
+
+function isFallback(stmt: NodePath<Statement>, stateKeys: Set<string>) {
+  if (!stmt.isIfStatement() || stmt.node.alternate) {
+    return false;
+  }
+  const consequent = stmt.get("consequent");
+  const returnsFallback =
+    consequent.isReturnStatement() ||
+    (consequent.isBlockStatement() &&
+      consequent.node.body[consequent.node.body.length - 1]?.type ===
+        "ReturnStatement");
+  if (!returnsFallback) {
+    return false;
+  }
+  // Only refers to props and the boundary states
+  let usesBoundaryState = false;
+  let ok = true;
+  stmt.traverse({
+    ThisExpression(thisPath) {
+      const memberPath = thisPath.parentPath;
+      const name = memberPath.isMemberExpression({ object: thisPath.node })
+        ? memberRefName(memberPath.node)
+        : undefined;
+      if (name === "props") {
+        return;
+      }
+      const stateNames = stateNamesOf(thisPath);
+      if (
+        name === "state" &&
+        stateNames.length > 0 &&
+        stateNames.every((stateName) => stateKeys.has(stateName))
+      ) {
+        usesBoundaryState = true;
+        return;
+      }
+      ok = false;
+    },
+  });
+  return ok && usesBoundaryState;
+}
+
+/**
+ * Names of states referenced through `this` as in `this.state.foo` or `const { foo } = this.state`
+ */
+function stateNamesOf(thisPath: NodePath): string[] {
+  const memberPath = thisPath.parentPath;
+  if (
+    !memberPath?.isMemberExpression({ object: thisPath.node }) ||
+    memberRefName(memberPath.node) !== "state"
+  ) {
+    return [];
+  }
+  const memberAnalysis = trackMember(memberPath as NodePath<Expression>);
+  if (memberAnalysis.memberExpr) {
+    return [memberAnalysis.memberExpr.name];
+  } else if (memberAnalysis.pattern) {
+    return memberAnalysis.pattern.keys;
+  } else if (memberAnalysis.memberAliases) {
+    return Array.from(memberAnalysis.memberAliases.keys());
+  }
+  return [];
+}
+
+/**
+ * Finds `state = { ... }` or `this.state = { ... }` in the constructor.
+ */
+function findStateInit(
+  path: NodePath<ClassDeclaration>
+): NodePath<ObjectExpression> | undefined {
+  for (const member of path.get("body").get("body")) {
+    if (
+      member.isClassProperty() &&
+      !member.node.static &&
+      memberName(member.node) === "state"
+    ) {
+      const valuePath = member.get("value");
+      return valuePath.isObjectExpression() ? valuePath : undefined;
+    }
+    if (member.isClassMethod({ kind: "constructor" })) {
+      for (const stmt of member.get("body").get("body")) {
+        if (!stmt.isExpressionStatement()) {
+          continue;
+        }
+        const exprPath = stmt.get("expression");
+        if (
+          exprPath.isAssignmentExpression({ operator: "=" }) &&
+          exprPath.node.left.type === "MemberExpression" &&
+          exprPath.node.left.object.type === "ThisExpression" &&
+          memberRefName(exprPath.node.left) === "state"
+        ) {
+          const valuePath = exprPath.get("right");
+          return valuePath.isObjectExpression() ? valuePath : undefined;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { AnalysisError } from "./error.js";
+import type { PreAnalysisResult } from "./pre.js";
+import { hasAnalyzableParams } from "./signature.js";
+import type { UserDefinedAnalysis } from "./user_defined.js";
+
+export type ExposeAnalysis = {
+  /**
+   * Names of the exposed methods, as in `focus` for `react-declassify-expose: focus`
+   */
+  members: string[];
+  /**
+   * Name of the ref received, as in `forwardRef((props, ref) => { ... })`
+   */
+  refName?: string | undefined;
+};
+
+/**
+ * Analyzes members requested to be exposed to refs:
+ *
+ * ```js
+ * /* react-declassify-expose: focus *\/
+ * class C extends React.Component {
+ *   focus() {
+ *     this.input.focus();
+ *   }
+ * }
+ * ```
+ *
+ * They will be handed to `useImperativeHandle` in a component wrapped in `forwardRef`.
+ */
+export function analyzeExpose(
+  preanalysis: PreAnalysisResult,
+  userDefined: UserDefinedAnalysis
+): ExposeAnalysis | undefined {
+  if (!preanalysis.expose) {
+    return;
+  }
+  if (preanalysis.typeParameters) {
+    // forwardRef does not preserve generics
+    throw new AnalysisError("Cannot expose members of a generic component");
+  }
+  for (const name of preanalysis.expose) {
+    const field = userDefined.fields.get(name);
+    if (field?.type !== "user_defined_function") {
+      throw new AnalysisError(`Cannot expose ${name}`);
+    }
+    const fnPath =
+      field.init.type === "method" ? field.init.path : field.init.initPath;
+    if (!field.typeAnnotation && !hasAnalyzableParams(fnPath)) {
+      throw new AnalysisError(`Cannot infer the type of ${name}`);
+    }
+  }
+  return { members: preanalysis.expose };
+}
@@ -0,0 +1,47 @@
+import type { NodePath } from "@babel/core";
+import type { Expression } from "@babel/types";
+import { SoftErrorRepository } from "./error.js";
+import { ClassFieldAnalysis, addClassFieldError } from "./class_fields.js";
+
+export type ForceUpdateAnalysis = {
+  /**
+   * Name of the dispatcher, as in `const [, forceUpdate] = useReducer(...)`
+   */
+  localName?: string | undefined;
+  /**
+   * `this.forceUpdate`, to be replaced with the dispatcher
+   */
+  sites: NodePath<Expression>[];
+};
+
+/**
+ * Analyzes `this.forceUpdate()`, which will be turned into a reducer that only counts up:
+ *
+ * ```js
+ * const [, forceUpdate] = useReducer((x) => x + 1, 0);
+ * ```
+ *
+ * The callback as in `this.forceUpdate(() => { ... })` is not supported.
+ */
+export function analyzeForceUpdate(
+  forceUpdate: ClassFieldAnalysis,
+  softErrors: SoftErrorRepository
+): ForceUpdateAnalysis {
+  const sites: NodePath<Expression>[] = [];
+  for (const site of forceUpdate.sites) {
+    if (site.type !== "expr" || site.hasWrite) {
+      addClassFieldError(site, softErrors);
+      continue;
+    }
+    const callPath = site.path.parentPath;
+    if (
+      callPath.isCallExpression({ callee: site.path.node }) &&
+      callPath.node.arguments.length > 0
+    ) {
+      addClassFieldError(site, softErrors);
+      continue;
+    }
+    sites.push(site.path);
+  }
+  return { sites };
+}
@@ -1,7 +1,7 @@
 import type { Scope } from "@babel/traverse";
 import type { NodePath } from "@babel/core";
 import type {
-  ClassDeclaration,
+  Class,
   ObjectProperty,
   RestElement,
   VariableDeclaration,
@@ -70,8 +70,8 @@ export type RemovableNode =
   | VariableDeclaration;
 
 export class LocalManager {
-  classPath: NodePath<ClassDeclaration>;
-  constructor(classPath: NodePath<ClassDeclaration>) {
+  classPath: NodePath<Class>;
+  constructor(classPath: NodePath<Class>) {
     this.classPath = classPath;
   }
 
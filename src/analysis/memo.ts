@@ -0,0 +1,153 @@
+import type { NodePath } from "@babel/core";
+import type {
+  ClassMethod,
+  Identifier,
+  MemberExpression,
+  Pattern,
+  RestElement,
+  ReturnStatement,
+} from "@babel/types";
+import { memberRefName } from "../utils.js";
+import { SoftErrorRepository } from "./error.js";
+import { ClassFieldAnalysis, addClassFieldError } from "./class_fields.js";
+
+export type MemoAnalysis = {
+  /**
+   * Set if shouldComponentUpdate can be transformed to the comparator for `React.memo`.
+   */
+  comparator?: MemoComparator | undefined;
+};
+
+export type MemoComparator = {
+  path: NodePath<ClassMethod>;
+  /**
+   * The parameter corresponding to `nextProps`, if any
+   */
+  nextPropsParam: NodePath<Identifier | Pattern | RestElement> | undefined;
+  /**
+   * Name for the first parameter of the comparator
+   */
+  prevPropsName: string;
+  /**
+   * `this.props` in shouldComponentUpdate, to be replaced with `prevProps`
+   */
+  propsSites: NodePath<MemberExpression>[];
+  /**
+   * Return statements in shouldComponentUpdate, to be negated
+   */
+  returns: NodePath<ReturnStatement>[];
+};
+
+/**
+ * Analyzes shouldComponentUpdate to see if it is expressible as a comparator:
+ *
+ * ```js
+ * shouldComponentUpdate(nextProps) {
+ *   return nextProps.id !== this.props.id;
+ * }
+ * ```
+ *
+ * It must not depend on states or other instance members.
+ */
+export function analyzeMemo(
+  shouldComponentUpdate: ClassFieldAnalysis,
+  softErrors: SoftErrorRepository
+): MemoAnalysis {
+  if (shouldComponentUpdate.sites.length === 0) {
+    return {};
+  }
+  const declSite = shouldComponentUpdate.sites.find(
+    (site) => site.type === "decl"
+  );
+  const fail = (reason?: string) => {
+    for (const site of shouldComponentUpdate.sites) {
+      if (site.type === "decl" && reason != null) {
+        softErrors.addDeclError(site.path as NodePath<ClassMethod>, reason);
+      } else {
+        addClassFieldError(site, softErrors);
+      }
+    }
+    return {};
+  };
+  if (
+    shouldComponentUpdate.sites.length > 1 ||
+    !declSite ||
+    !declSite.path.isClassMethod()
+  ) {
+    return fail();
+  }
+  const path = declSite.path;
+  const params = path.get("params");
+  if (params.length > 2) {
+    return fail("shouldComponentUpdate has too many parameters");
+  }
+  const nextStateParam = params[1];
+  if (
+    nextStateParam &&
+    (!nextStateParam.isIdentifier() ||
+      path.scope.getBinding(nextStateParam.node.name)?.referenced !== false)
+  ) {
+    return fail(
+      "shouldComponentUpdate reads nextState, which cannot be expressed in React.memo"
+    );
+  }
+  const nextPropsParam = params[0] as
+    | NodePath<Identifier | Pattern | RestElement>
+    | undefined;
+
+  const propsSites: NodePath<MemberExpression>[] = [];
+  const returns: NodePath<ReturnStatement>[] = [];
+  let reason: string | undefined = undefined;
+  path.get("body").traverse({
+    ThisExpression(thisPath) {
+      const memberPath = thisPath.parentPath;
+      const name = memberPath.isMemberExpression({ object: thisPath.node })
+        ? memberRefName(memberPath.node)
+        : undefined;
+      if (name === "props") {
+        propsSites.push(memberPath as NodePath<MemberExpression>);
+      } else if (name === "state") {
+        reason ??=
+          "shouldComponentUpdate reads this.state, which cannot be expressed in React.memo";
+      } else {
+        reason ??= `shouldComponentUpdate refers to ${
+          name != null ? `this.${name}` : "this"
+        }, which cannot be expressed in React.memo`;
+      }
+    },
+    ReturnStatement(returnPath) {
+      if (returnPath.getFunctionParent() === path) {
+        returns.push(returnPath);
+      }
+    },
+    FunctionDeclaration(path) {
+      path.skip();
+    },
+    FunctionExpression(path) {
+      path.skip();
+    },
+    ClassDeclaration(path) {
+      path.skip();
+    },
+    ClassExpression(path) {
+      path.skip();
+    },
+    ObjectMethod(path) {
+      path.skip();
+    },
+  });
+  if (reason != null) {
+    return fail(reason);
+  }
+  return {
+    comparator: {
+      path,
+      nextPropsParam,
+      prevPropsName: path.scope.hasBinding("prevProps")
+        ? path.scope.generateUid("prevProps")
+        : "prevProps",
+      propsSites,
+      returns,
+    },
+  };
+}
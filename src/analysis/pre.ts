@@ -3,7 +3,8 @@
 import type { NodePath } from "@babel/core";
 import type {
   BlockStatement,
-  ClassDeclaration,
+  Class,
+  Comment,
   Identifier,
   Program,
   TSInterfaceBody,
@@ -19,7 +20,9 @@ export type PreAnalysisResult = {
   /**
    * The declared name of the class declaration/expression.
    *
-   * May be absent if it is a class expression or a class declaration in an `export default` declaration.
+   * For class expressions, the name of the variable it is assigned to is used if the class itself is unnamed.
+   *
+   * May be absent if it is an anonymous class expression or a class declaration in an `export default` declaration.
    */
   name?: Identifier | undefined;
   /**
@@ -43,10 +46,18 @@ export type PreAnalysisResult = {
    * Decomposed Props type (`P` as in `React.Component<P>`)
    */
   propsEach: Map<string, NodePath<TSPropertySignature | TSMethodSignature>>;
+  /**
+   * A node containing State type (`S` as in `React.Component<P, S>`)
+   */
+  state: NodePath<TSType> | undefined;
   /**
    * Decomposed State type (`S` as in `React.Component<P, S>`)
    */
   states: Map<string, NodePath<TSPropertySignature | TSMethodSignature>>;
+  /**
+   * Members to be exposed to refs, as requested by a directive like `react-declassify-expose: focus, reset`
+   */
+  expose: string[] | undefined;
 };
 
 /**
@@ -56,10 +67,11 @@ export type PreAnalysisResult = {
  * @returns an object containing analysis result, if the class should be transformed
  */
 export function preanalyzeClass(
-  path: NodePath<ClassDeclaration>
+  path: NodePath<Class>
 ): PreAnalysisResult | undefined {
+  const leadingComments = collectLeadingComments(path);
   if (
-    path.node.leadingComments?.some((comment) =>
+    leadingComments.some((comment) =>
       /react-declassify-disable/.test(comment.value)
     )
   ) {
@@ -73,13 +85,13 @@ export function preanalyzeClass(
     return;
   }
   if (
-    path.node.leadingComments?.some(
+    leadingComments.some(
       (comment) =>
         comment.type === "CommentBlock" &&
         /^\*/.test(comment.value) &&
         /@abstract/.test(comment.value)
     ) ||
-    path.node.abstract
+    (path.isClassDeclaration() && path.node.abstract)
   ) {
     // This is an abstract class to be inherited; do not attempt transformation.
     //
@@ -92,6 +104,26 @@ export function preanalyzeClass(
     return;
   }
 
+  // Members exposed via `forwardRef` + `useImperativeHandle`
+  //
+  // E.g.
+  // ```js
+  // /* react-declassify-expose: focus, reset */
+  // class MyComponent extends Component {}
+  // ```
+  let expose: string[] | undefined = undefined;
+  for (const comment of leadingComments) {
+    const match = /react-declassify-expose:([\w$,\s]*)/.exec(comment.value);
+    if (match) {
+      expose ??= [];
+      for (const name of match[1]!.split(",").map((name) => name.trim())) {
+        if (name !== "" && !expose.includes(name)) {
+          expose.push(name);
+        }
+      }
+    }
+  }
+
   // Check if it extends React.Component or React.PureComponent
   const superClass = nonNullPath(path.get("superClass"));
   if (!superClass) {
@@ -114,7 +146,9 @@ export function preanalyzeClass(
   }
 
   // OK, now we are going to transform the component
-  const name = path.node.id;
+  // The variable name wins over the inner name, as in `const C = class Inner extends Component {}`,
+  // since the inner name is not visible outside the class.
+  const name = assignedName(path) ?? path.node.id ?? undefined;
   const typeParameters_ = nonNullPath(path.get("typeParameters"));
   const typeParameters = typeParameters_?.isTSTypeParameterDeclaration()
     ? typeParameters_
@@ -124,6 +158,7 @@ export function preanalyzeClass(
   let propsEach:
     | Map<string, NodePath<TSPropertySignature | TSMethodSignature>>
     | undefined = undefined;
+  let state: NodePath<TSType> | undefined;
   let states:
     | Map<string, NodePath<TSPropertySignature | TSMethodSignature>>
     | undefined = undefined;
@@ -136,8 +171,8 @@ export function preanalyzeClass(
       propsEach = decompose(params[0]!);
     }
     if (params.length > 1) {
-      const stateParamPath = params[1]!;
-      states = decompose(stateParamPath);
+      state = params[1];
+      states = decompose(params[1]!);
     }
   }
   propsEach ??= new Map();
@@ -149,10 +184,48 @@ export function preanalyzeClass(
     isPure,
     props,
     propsEach,
+    state,
     states,
+    expose,
   };
 }
 
+/**
+ * Collects comments attached to the class, as well as those attached to the enclosing statement
+ * if it is exported or a class expression like `const C = class extends Component {}`.
+ */
+function collectLeadingComments(path: NodePath<Class>): Comment[] {
+  const comments = [...(path.node.leadingComments ?? [])];
+  if (path.parentPath.isExportDeclaration()) {
+    comments.push(...(path.parentPath.node.leadingComments ?? []));
+  }
+  if (path.isClassExpression()) {
+    const stmtPath = path.getStatementParent();
+    if (stmtPath) {
+      comments.push(...(stmtPath.node.leadingComments ?? []));
+      if (stmtPath.parentPath.isExportNamedDeclaration()) {
+        comments.push(...(stmtPath.parentPath.node.leadingComments ?? []));
+      }
+    }
+  }
+  return comments;
+}
+
+/**
+ * Finds the variable name for a class expression like `const C = class extends Component {}`.
+ */
+function assignedName(path: NodePath<Class>): Identifier | undefined {
+  if (path.isClassExpression()) {
+    const declaratorPath = path.parentPath;
+    if (
+      declaratorPath.isVariableDeclarator({ init: path.node }) &&
+      declaratorPath.node.id.type === "Identifier"
+    ) {
+      return declaratorPath.node.id;
+    }
+  }
+}
+
 /**
  * Tries to decompose a type into a set of property signatures.
  *
@@ -162,6 +235,10 @@ export function preanalyzeClass(
 function decompose(
   path: NodePath<TSType>
 ): Map<string, NodePath<TSPropertySignature | TSMethodSignature>> {
+  const omitted = decomposeOmit(path);
+  if (omitted) {
+    return omitted;
+  }
   const aliasPath = resolveAlias(path);
   const members = aliasPath.isTSTypeLiteral()
     ? aliasPath.get("members")
@@ -185,6 +262,44 @@ function decompose(
   return decomposed;
 }
 
+/**
+ * Decomposes `Omit<S, "foo" | "bar">`.
+ */
+function decomposeOmit(
+  path: NodePath<TSType>
+): Map<string, NodePath<TSPropertySignature | TSMethodSignature>> | undefined {
+  if (
+    !path.isTSTypeReference() ||
+    path.node.typeName.type !== "Identifier" ||
+    path.node.typeName.name !== "Omit"
+  ) {
+    return;
+  }
+  const typeParameters = nonNullPath(path.get("typeParameters"));
+  const [basePath, keysPath] = typeParameters?.get("params") ?? [];
+  if (!basePath || !keysPath) {
+    return;
+  }
+  const keyPaths = keysPath.isTSUnionType()
+    ? keysPath.get("types")
+    : [keysPath];
+  const keys: string[] = [];
+  for (const keyPath of keyPaths) {
+    if (
+      !keyPath.isTSLiteralType() ||
+      keyPath.node.literal.type !== "StringLiteral"
+    ) {
+      return;
+    }
+    keys.push(keyPath.node.literal.value);
+  }
+  const decomposed = decompose(basePath);
+  for (const key of keys) {
+    decomposed.delete(key);
+  }
+  return decomposed;
+}
+
 /**
  * Jumps to the definition if the type node references other type.
  *
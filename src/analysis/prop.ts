@@ -3,6 +3,7 @@ import type { Scope } from "@babel/traverse";
 import type {
   Expression,
   MemberExpression,
+  ObjectExpression,
   TSMethodSignature,
   TSPropertySignature,
 } from "@babel/types";
@@ -10,7 +11,7 @@ import { getOr, memberName } from "../utils.js";
 import { AnalysisError, SoftErrorRepository } from "./error.js";
 import type { LocalManager } from "./local.js";
 import { ClassFieldAnalysis, addClassFieldError } from "./class_fields.js";
-import { trackMember } from "./track_member.js";
+import { AliasCopy, trackMember } from "./track_member.js";
 import { PreAnalysisResult } from "./pre.js";
 
 export type PropsObjAnalysis = {
@@ -18,10 +19,40 @@ export type PropsObjAnalysis = {
   sites: PropsObjSite[];
   props: Map<string, PropAnalysis>;
   allAliases: PropAlias[];
+  /**
+   * Destructuring of `this.props` with default values or nested patterns,
+   * as in `const { foo = 1, bar: { baz } } = this.props;`
+   */
+  patterns: PropsPatternSite[];
+  /**
+   * Set if `this.props` is used as a whole along with defaultProps,
+   * in which case the defaults are merged into a new props object.
+   */
+  merged?: MergedPropsAnalysis | undefined;
+};
+
+export type MergedPropsAnalysis = {
+  /**
+   * The defaults, as in `static defaultProps = { color: "red" }`
+   */
+  defaultPropsPath: NodePath<ObjectExpression>;
+  /**
+   * Name of the hoisted defaults, as in `const defaultProps = { color: "red" };`
+   */
+  hoistedName?: string | undefined;
+  /**
+   * Name of the parameter receiving the props before merging
+   */
+  rawName?: string | undefined;
 };
 
 export type PropAnalysis = {
   newAliasName?: string | undefined;
+  /**
+   * true if the prop should be expanded to a variable even if it is not referenced as such,
+   * e.g. to remember the previous value for `componentDidUpdate`.
+   */
+  forceAlias?: boolean | undefined;
   defaultValue?: NodePath<Expression>;
   sites: PropSite[];
   aliases: PropAlias[];
@@ -30,7 +61,7 @@ export type PropAnalysis = {
 
 // These are mutually linked
 export type PropsObjSite = {
-  path: NodePath<MemberExpression>;
+  path: NodePath<Expression>;
   owner: string | undefined;
   decomposedAsAliases: boolean;
   child: PropSite | undefined;
@@ -47,6 +78,22 @@ export type PropAlias = {
   scope: Scope;
   localName: string;
   owner: string | undefined;
+  /**
+   * Set if the variable is reassigned, as in `let { foo } = this.props; foo = 1;`
+   */
+  copy?: AliasCopy | undefined;
+};
+
+export type PropsPatternSite = {
+  /**
+   * `this.props` to be replaced with an object of the aliases, as in `{ foo, bar }`
+   */
+  path: NodePath<Expression>;
+  owner: string | undefined;
+  /**
+   * The top-level keys of the pattern
+   */
+  keys: string[];
 };
 
 /**
@@ -62,16 +109,31 @@ export type PropAlias = {
  * const foo = this.props.foo;
  * const bar = this.props.bar;
  * ```
+ *
+ * Destructuring with default values or nested patterns is left in place, destructuring from the aliases:
+ *
+ * ```js
+ * const { foo = 1, bar: { baz } } = this.props;
+ * ```
+ *
+ * Destructuring with a rest element is treated as a use of `this.props` as a whole.
  */
 export function analyzeProps(
   propsObjAnalysis: ClassFieldAnalysis,
   defaultPropsObjAnalysis: ClassFieldAnalysis,
   locals: LocalManager,
   softErrors: SoftErrorRepository,
-  preanalysis: PreAnalysisResult
+  preanalysis: PreAnalysisResult,
+  /**
+   * true if `props` is passed as a whole elsewhere, as in `getDerivedStateFromProps(props, ...)`
+   */
+  usedAsWhole = false
 ): PropsObjAnalysis {
-  const defaultProps = analyzeDefaultProps(defaultPropsObjAnalysis);
+  const defaultPropsInit = analyzeDefaultProps(defaultPropsObjAnalysis);
+  const defaultProps = defaultPropsInit?.fields;
+  let merged = usedAsWhole;
   const newObjSites: PropsObjSite[] = [];
+  const patterns: PropsPatternSite[] = [];
   const props = new Map<string, PropAnalysis>();
   const getProp = (name: string) =>
     getOr(props, name, () => ({
@@ -79,12 +141,31 @@ export function analyzeProps(
       aliases: [],
     }));
 
+  const sites: { path: NodePath<Expression>; owner: string | undefined }[] = [];
   for (const site of propsObjAnalysis.sites) {
     if (site.type !== "expr" || site.hasWrite) {
       addClassFieldError(site, softErrors);
       continue;
     }
-    const memberAnalysis = trackMember(site.path);
+    sites.push({ path: site.path, owner: site.owner });
+  }
+  // Sites are added as we find aliases of `this.props`
+  for (let i = 0; i < sites.length; i++) {
+    const site = sites[i]!;
+    const memberAnalysis = trackMember(site.path, { allowReassigned: true });
+    if (memberAnalysis.objectAlias) {
+      // const props = this.props;
+      const { objectAlias } = memberAnalysis;
+      const binding = objectAlias.scope.getBinding(objectAlias.node.name)!;
+      for (const refPath of binding.referencePaths) {
+        sites.push({
+          path: refPath as NodePath<Expression>,
+          owner: site.owner,
+        });
+      }
+      locals.reserveRemoval(objectAlias);
+      continue;
+    }
     const parentSite: PropsObjSite = {
       path: site.path,
       owner: site.owner,
@@ -98,14 +179,29 @@ export function analyzeProps(
           scope: aliasing.scope,
           localName: aliasing.localName,
           owner: site.owner,
+          copy: aliasing.reassigned
+            ? { declPath: aliasing.declPath }
+            : undefined,
         });
         locals.reserveRemoval(aliasing.idPath);
       }
       parentSite.decomposedAsAliases = true;
+    } else if (memberAnalysis.pattern && !memberAnalysis.pattern.hasRest) {
+      // const { foo = 1, bar: { baz } } = this.props;
+      // -> const { foo = 1, bar: { baz } } = { foo, bar };
+      // Only the top-level keys are hoisted, so that the pattern is evaluated where it was.
+      for (const key of memberAnalysis.pattern.keys) {
+        getProp(key).forceAlias = true;
+      }
+      patterns.push({
+        path: site.path,
+        owner: site.owner,
+        keys: memberAnalysis.pattern.keys,
+      });
     } else {
       if (defaultProps && !memberAnalysis.memberExpr) {
-        addClassFieldError(site, softErrors);
-        continue;
+        // The defaults cannot be expressed by destructuring for `this.props` as a whole
+        merged = true;
       }
       newObjSites.push(parentSite);
       if (memberAnalysis.memberExpr) {
@@ -135,16 +231,28 @@ export function analyzeProps(
     sites: newObjSites,
     props,
     allAliases,
+    patterns,
+    merged:
+      merged && defaultPropsInit
+        ? { defaultPropsPath: defaultPropsInit.path }
+        : undefined,
   };
 }
 
 export function needAlias(prop: PropAnalysis): boolean {
-  return prop.aliases.length > 0 || prop.sites.some((s) => s.enabled);
+  return (
+    !!prop.forceAlias ||
+    prop.aliases.length > 0 ||
+    prop.sites.some((s) => s.enabled)
+  );
 }
 
-function analyzeDefaultProps(
-  defaultPropsAnalysis: ClassFieldAnalysis
-): Map<string, NodePath<Expression>> | undefined {
+function analyzeDefaultProps(defaultPropsAnalysis: ClassFieldAnalysis):
+  | {
+      path: NodePath<ObjectExpression>;
+      fields: Map<string, NodePath<Expression>>;
+    }
+  | undefined {
   for (const site of defaultPropsAnalysis.sites) {
     if (!site.init) {
       throw new AnalysisError(`Invalid use of static defaultProps`);
@@ -178,5 +286,7 @@ function analyzeDefaultProps(
     }
     defaultPropsFields.set(stateName, fieldInitPath);
   }
-  return defaultPropsFields.size > 0 ? defaultPropsFields : undefined;
+  return defaultPropsFields.size > 0
+    ? { path: initPath, fields: defaultPropsFields }
+    : undefined;
 }
@@ -0,0 +1,96 @@
+import type { NodePath } from "@babel/core";
+import type {
+  ArrowFunctionExpression,
+  ClassMethod,
+  ClassPrivateMethod,
+  Expression,
+  FunctionExpression,
+} from "@babel/types";
+
+export type FunctionLikePath = NodePath<
+  | ClassMethod
+  | ClassPrivateMethod
+  | FunctionExpression
+  | ArrowFunctionExpression
+>;
+
+/**
+ * Checks if the parameters can be expressed in a function type, as in `(x?: number, __1: Options) => void`.
+ */
+export function hasAnalyzableParams(fnPath: FunctionLikePath): boolean {
+  return fnPath.node.params.every((param) => {
+    const target = param.type === "AssignmentPattern" ? param.left : param;
+    return (
+      target.type === "Identifier" ||
+      target.type === "ObjectPattern" ||
+      target.type === "ArrayPattern" ||
+      target.type === "RestElement"
+    );
+  });
+}
+
+/**
+ * Checks if the function may return a value, in which case the return type cannot be `void`.
+ */
+export function returnsValue(fnPath: FunctionLikePath): boolean {
+  if (fnPath.node.async || fnPath.node.generator) {
+    return true;
+  }
+  let result = fnPath.node.body.type !== "BlockStatement";
+  fnPath.traverse({
+    ReturnStatement(returnPath) {
+      if (returnPath.node.argument) {
+        result = true;
+      }
+    },
+    Function(nestedPath) {
+      nestedPath.skip();
+    },
+  });
+  return result;
+}
+
+/**
+ * Checks if the function type can be written without guessing,
+ * i.e. every parameter is annotated (or has a literal default) and the return type is annotated or `void`.
+ */
+export function isSignatureTyped(fnPath: FunctionLikePath): boolean {
+  if (!hasAnalyzableParams(fnPath)) {
+    return false;
+  }
+  const paramsTyped = fnPath.node.params.every((param) => {
+    const target = param.type === "AssignmentPattern" ? param.left : param;
+    if ("typeAnnotation" in target && target.typeAnnotation) {
+      return true;
+    }
+    // (upper = false) => ... -> (upper?: boolean) => ...
+    return param.type === "AssignmentPattern" && hasLiteralType(param.right);
+  });
+  return paramsTyped && (!!fnPath.node.returnType || !returnsValue(fnPath));
+}
+
+/**
+ * Checks if the type of the expression is obvious, as in `string` for `"foo"`
+ */
+export function hasLiteralType(expr: Expression): boolean {
+  return (
+    expr.type === "StringLiteral" ||
+    expr.type === "TemplateLiteral" ||
+    expr.type === "NumericLiteral" ||
+    expr.type === "BooleanLiteral"
+  );
+}
+
+/**
+ * Checks if the expression can be referred to in a type, as in `typeof Foo.Bar`
+ */
+export function isEntityExpression(expr: Expression): boolean {
+  if (
+    expr.type === "MemberExpression" &&
+    !expr.computed &&
+    expr.property.type === "Identifier"
+  ) {
+    return isEntityExpression(expr.object);
+  }
+  return expr.type === "Identifier";
+}
@@ -1,8 +1,12 @@
 import type { NodePath } from "@babel/core";
+import type { Scope } from "@babel/traverse";
 import type {
+  ArrowFunctionExpression,
   CallExpression,
   Expression,
+  FunctionExpression,
   Identifier,
+  JSXIdentifier,
   ObjectProperty,
   RestElement,
   TSType,
@@ -11,18 +15,83 @@ import { getOr, memberName } from "../utils.js";
 import { AnalysisError, SoftErrorRepository } from "./error.js";
 import { PreAnalysisResult } from "./pre.js";
 import type { LocalManager } from "./local.js";
-import { ClassFieldAnalysis, addClassFieldError } from "./class_fields.js";
-import { trackMember } from "./track_member.js";
+import {
+  ClassFieldAnalysis,
+  ClassFieldSite,
+  addClassFieldError,
+} from "./class_fields.js";
+import { AliasCopy, trackMember } from "./track_member.js";
 
 export type StateObjAnalysis = {
   states: Map<string, StateAnalysis>;
   setStateSites: SetStateSite[];
+  /**
+   * `this.state` destructured with default values, nested patterns, or a rest element,
+   * to be replaced with an object of the states, as in `const { foo = 1, ...rest } = { foo, bar };`
+   */
+  patternSites: StatePatternSite[];
+  /**
+   * Variables aliasing states and reassigned later, as in `let { foo } = this.state; foo = 1;`
+   */
+  aliasCopies: StateAliasCopy[];
+  /**
+   * The ref holding the indices of the pending completion callbacks, as in `pendingCallbacks.current.push(0)`
+   */
+  pendingCallbacksName?: string | undefined;
+  /**
+   * The dispatcher to make sure that the component re-renders so that the callbacks run
+   */
+  requestCallbacksName?: string | undefined;
+  /**
+   * The array of the completion callbacks in the effect, as in `const callbacks = [() => { ... }];`
+   */
+  callbacksName?: string | undefined;
+  /**
+   * Present if the state cannot be decomposed into individual states, e.g. due to `this.setState({ [name]: value })`.
+   * In that case, `states` and `setStateSites` are empty.
+   */
+  whole?: WholeStateAnalysis | undefined;
+};
+
+/**
+ * The state held as a single object, updated through a merging setter.
+ */
+export type WholeStateAnalysis = {
+  localName?: string | undefined;
+  /**
+   * The merging setter, as in `setState(patch)`
+   */
+  localSetterName?: string | undefined;
+  /**
+   * The setter returned from `useState`
+   */
+  localRawSetterName?: string | undefined;
+  init?: NodePath<Expression> | undefined;
+  lazyInit?: boolean | undefined;
+  typeAnnotation?: NodePath<TSType> | undefined;
+  /**
+   * `this.state`, to be replaced with `state`
+   */
+  sites: WholeStateSite[];
+  /**
+   * `this.setState`, to be replaced with `setState`
+   */
+  setStateSites: WholeStateSite[];
+};
+
+export type WholeStateSite = {
+  path: NodePath<Expression>;
+  owner: string | undefined;
 };
 
 export type StateAnalysis = {
   localName?: string | undefined;
   localSetterName?: string | undefined;
   init?: StateInitSite | undefined;
+  /**
+   * true if the initializer should be wrapped as in `useState(() => init)`
+   */
+  lazyInit?: boolean | undefined;
   typeAnnotation?: StateTypeAnnotation;
   sites: StateSite[];
 };
@@ -40,14 +109,58 @@ export type StateExprSite = {
   owner: string | undefined;
 };
 
+export type StatePatternSite = {
+  path: NodePath<Expression>;
+  owner: string | undefined;
+  /**
+   * States to be included in the object
+   */
+  names: string[];
+  hasRest: boolean;
+};
+
+export type StateAliasCopy = {
+  name: string;
+  scope: Scope;
+  localName: string;
+  owner: string | undefined;
+  copy: AliasCopy;
+};
+
 export type SetStateSite = {
   path: NodePath<CallExpression>;
+  owner: string | undefined;
   fields: SetStateFieldSite[];
+  /**
+   * `props.foo` in functional updates, as in `this.setState((prev, props) => ...)`
+   */
+  propsSites: SetStatePropsSite[];
+  /**
+   * The completion callback, as in `this.setState({ foo: 1 }, () => { ... })`
+   */
+  callback?: SetStateCallback | undefined;
+};
+
+export type SetStateCallback = {
+  path: NodePath<Expression>;
+  /**
+   * Index of the callback in the effect running the pending callbacks
+   */
+  index: number;
 };
 
 export type SetStateFieldSite = {
   name: string;
   valuePath: NodePath<Expression>;
+  /**
+   * Present for functional updates: references to the previous value, as in `prev.foo`
+   */
+  prevSites?: NodePath<Expression>[] | undefined;
+};
+
+export type SetStatePropsSite = {
+  name: string;
+  path: NodePath<Expression>;
 };
 
 export type StateTypeAnnotation =
@@ -73,6 +186,14 @@ export function analyzeState(
     getOr(states, name, () => ({
       sites: [],
     }));
+  // Errors to be resolved if the state is held as a whole
+  let decomposable = true;
+  const deferredErrors: ClassFieldSite[] = [];
+  const deferError = (site: ClassFieldSite) => {
+    decomposable = false;
+    deferredErrors.push(site);
+  };
+  const aliasRemovals: NodePath[] = [];
 
   const init = stateObjAnalysis.sites.find((site) => site.init);
   if (init) {
@@ -81,20 +202,24 @@ export function analyzeState(
       throw new AnalysisError("Non-analyzable state initializer");
     }
     const initPath = init_.valuePath;
+    const fieldPaths = initPath.isObjectExpression()
+      ? initPath.get("properties")
+      : [];
     if (!initPath.isObjectExpression()) {
-      throw new AnalysisError("Non-analyzable state initializer");
+      // state = initialState;
+      decomposable = false;
     }
-    for (const fieldPath of initPath.get("properties")) {
+    for (const fieldPath of fieldPaths) {
       if (!fieldPath.isObjectProperty()) {
-        throw new AnalysisError("Non-analyzable state initializer");
+        // state = { ...initialState };
+        decomposable = false;
+        continue;
       }
       const stateName = memberName(fieldPath.node);
-      if (stateName == null) {
-        throw new AnalysisError("Non-analyzable state initializer");
-      }
       const fieldInitPath = fieldPath.get("value");
-      if (!fieldInitPath.isExpression()) {
-        throw new AnalysisError("Non-analyzable state initializer");
+      if (stateName == null || !fieldInitPath.isExpression()) {
+        decomposable = false;
+        continue;
       }
       const state = getState(stateName);
       state.sites.push({
@@ -104,6 +229,13 @@ export function analyzeState(
       });
     }
   }
+  const patternSites: StatePatternSite[] = [];
+  const aliasCopies: StateAliasCopy[] = [];
+  const exprSites: {
+    path: NodePath<Expression>;
+    owner: string | undefined;
+    fieldSite: ClassFieldSite;
+  }[] = [];
   for (const site of stateObjAnalysis.sites) {
     if (site.init) {
       continue;
@@ -112,11 +244,40 @@ export function analyzeState(
       addClassFieldError(site, softErrors);
       continue;
     }
-    const memberAnalysis = trackMember(site.path);
-    if (memberAnalysis.fullyDecomposed && memberAnalysis.memberAliases) {
+    exprSites.push({ path: site.path, owner: site.owner, fieldSite: site });
+  }
+  // Sites are added as we find aliases of `this.state`
+  for (let i = 0; i < exprSites.length; i++) {
+    const site = exprSites[i]!;
+    const memberAnalysis = trackMember(site.path, { allowReassigned: true });
+    if (memberAnalysis.objectAlias) {
+      // const state = this.state;
+      const { objectAlias } = memberAnalysis;
+      const binding = objectAlias.scope.getBinding(objectAlias.node.name)!;
+      aliasRemovals.push(objectAlias);
+      for (const refPath of binding.referencePaths) {
+        exprSites.push({
+          path: refPath as NodePath<Expression>,
+          owner: site.owner,
+          fieldSite: site.fieldSite,
+        });
+      }
+    } else if (memberAnalysis.fullyDecomposed && memberAnalysis.memberAliases) {
       for (const [name, aliasInfo] of memberAnalysis.memberAliases) {
         const binding = aliasInfo.scope.getBinding(aliasInfo.localName)!;
-        locals.reserveRemoval(binding.path);
+        aliasRemovals.push(binding.path);
+        if (aliasInfo.reassigned) {
+          // let { foo } = this.state; foo = 1;
+          getState(name);
+          aliasCopies.push({
+            name,
+            scope: aliasInfo.scope,
+            localName: aliasInfo.localName,
+            owner: site.owner,
+            copy: { declPath: aliasInfo.declPath },
+          });
+          continue;
+        }
         for (const path of binding.referencePaths) {
           if (!path.isExpression()) {
             throw new Error("referencePath contains non-Expression");
@@ -128,6 +289,17 @@ export function analyzeState(
           });
         }
       }
+    } else if (memberAnalysis.pattern) {
+      // const { foo = 1, ...rest } = this.state;
+      for (const name of memberAnalysis.pattern.keys) {
+        getState(name);
+      }
+      patternSites.push({
+        path: site.path,
+        owner: site.owner,
+        names: memberAnalysis.pattern.keys,
+        hasRest: memberAnalysis.pattern.hasRest,
+      });
     } else if (memberAnalysis.memberExpr) {
       getState(memberAnalysis.memberExpr.name).sites.push({
         type: "expr",
@@ -135,7 +307,8 @@ export function analyzeState(
         owner: site.owner,
       });
     } else {
-      addClassFieldError(site, softErrors);
+      // this.state as a whole
+      deferError(site.fieldSite);
       continue;
     }
   }
@@ -147,26 +320,34 @@ export function analyzeState(
     }
     const gpPath = site.path.parentPath;
     if (!gpPath.isCallExpression()) {
-      addClassFieldError(site, softErrors);
+      deferError(site);
       continue;
     }
     const args = gpPath.get("arguments");
-    if (args.length !== 1) {
-      addClassFieldError(site, softErrors);
+    if (args.length !== 1 && args.length !== 2) {
+      deferError(site);
       continue;
     }
     const arg0 = args[0]!;
+    const arg1 = args[1];
+    if (arg1 && !arg1.isExpression()) {
+      deferError(site);
+      continue;
+    }
+    let setStateSite: SetStateSite | undefined;
     if (arg0.isObjectExpression()) {
       const props = arg0.get("properties");
       const fields: SetStateFieldSite[] = [];
       for (const prop of props) {
         if (!prop.isObjectProperty()) {
-          addClassFieldError(site, softErrors);
+          // this.setState({ ...patch })
+          deferError(site);
           continue setStateLoop;
         }
         const setStateName = memberName(prop.node);
         if (setStateName == null) {
-          addClassFieldError(site, softErrors);
+          // this.setState({ [name]: value })
+          deferError(site);
           continue setStateLoop;
         }
         // Ensure the state exists
@@ -176,14 +357,83 @@ export function analyzeState(
           valuePath: prop.get("value") as NodePath<Expression>,
         });
       }
-      setStateSites.push({
+      setStateSite = {
         path: gpPath,
+        owner: site.owner,
         fields,
-      });
+        propsSites: [],
+      };
+    } else if (
+      arg0.isArrowFunctionExpression() ||
+      arg0.isFunctionExpression()
+    ) {
+      // this.setState((prev, props) => ({ foo: prev.foo + props.by }))
+      setStateSite = analyzeUpdater(arg0, gpPath, site.owner);
+      if (!setStateSite) {
+        deferError(site);
+        continue;
+      }
+      for (const field of setStateSite.fields) {
+        // Ensure the state exists
+        getState(field.name);
+      }
     } else {
-      addClassFieldError(site, softErrors);
+      // this.setState(patch)
+      deferError(site);
       continue;
     }
+    if (arg1) {
+      if (setStateSite.fields.length === 0) {
+        // The callback would have nothing to wait for
+        addClassFieldError(site, softErrors);
+        continue;
+      }
+      if (referencesInnerBindings(arg1, gpPath)) {
+        // The callback is moved to an effect, where the variables are not accessible
+        addClassFieldError(site, softErrors);
+        continue;
+      }
+      if (arg1.isFunctionExpression()) {
+        // this.setState({ foo: 1 }, function () { this.foo(); })
+        // `this` would no longer be the instance in the effect
+        arg1.traverse({
+          ThisExpression(thisPath) {
+            const fnParent = thisPath.findParent(
+              (p) => p.isFunction() && !p.isArrowFunctionExpression()
+            );
+            if (fnParent === arg1) {
+              softErrors.addThisError(thisPath);
+            }
+          },
+        });
+      }
+      // this.setState({ foo: 1 }, () => { ... })
+      setStateSite.callback = {
+        path: arg1,
+        index: setStateSites.filter((site) => site.callback).length,
+      };
+    }
+    setStateSites.push(setStateSite);
+  }
+  if (!decomposable && (init || setStateAnalysis.sites.length > 0)) {
+    return {
+      states: new Map(),
+      setStateSites: [],
+      patternSites: [],
+      aliasCopies: [],
+      whole: analyzeWholeState(
+        stateObjAnalysis,
+        setStateAnalysis,
+        softErrors,
+        preanalysis
+      ),
+    };
+  }
+  for (const site of deferredErrors) {
+    addClassFieldError(site, softErrors);
+  }
+  for (const aliasPath of aliasRemovals) {
+    locals.reserveRemoval(aliasPath);
   }
   for (const [name, stateType] of preanalysis.states) {
     const state = getState(name);
@@ -219,5 +469,227 @@ export function analyzeState(
       (site): site is StateInitSite => site.type === "state_init"
     );
   }
-  return { states, setStateSites };
+  for (const patternSite of patternSites) {
+    if (patternSite.hasRest) {
+      // The rest may take any of the states
+      patternSite.names = Array.from(states.keys());
+    }
+  }
+  return { states, setStateSites, patternSites, aliasCopies };
+}
+
+/**
+ * Checks if the expression refers to variables declared inside the class (except for those declared in the expression itself),
+ * as in `(e) => this.setState({ foo: 1 }, () => log(e))`.
+ */
+function referencesInnerBindings(
+  path: NodePath<Expression>,
+  setStatePath: NodePath<CallExpression>
+): boolean {
+  const classPath = setStatePath.findParent((p) => p.isClass());
+  if (!classPath) {
+    return false;
+  }
+  const isInner = (name: string, scope: Scope) => {
+    const binding = scope.getBinding(name);
+    if (!binding) {
+      return false;
+    }
+    const declScopePath = binding.scope.path;
+    return (
+      declScopePath.isDescendant(classPath) &&
+      declScopePath !== path &&
+      !declScopePath.isDescendant(path)
+    );
+  };
+  if (path.isIdentifier()) {
+    return isInner(path.node.name, path.scope);
+  }
+  let result = false;
+  const visitId = (idPath: NodePath<Identifier | JSXIdentifier>) => {
+    if (
+      idPath.isReferencedIdentifier() &&
+      isInner(idPath.node.name, idPath.scope)
+    ) {
+      result = true;
+      idPath.stop();
+    }
+  };
+  path.traverse({ Identifier: visitId, JSXIdentifier: visitId });
+  return result;
+}
+
+/**
+ * Analyzes the state as a single object, as a fallback for non-decomposable states:
+ *
+ * ```js
+ * this.setState({ [name]: value });
+ * // ->
+ * const [state, replaceState] = useState({ ... });
+ * const setState = useCallback((patch) => replaceState((prev) => ({ ...prev, ...patch })), []);
+ * setState({ [name]: value });
+ * ```
+ */
+function analyzeWholeState(
+  stateObjAnalysis: ClassFieldAnalysis,
+  setStateAnalysis: ClassFieldAnalysis,
+  softErrors: SoftErrorRepository,
+  preanalysis: PreAnalysisResult
+): WholeStateAnalysis {
+  const init = stateObjAnalysis.sites.find((site) => site.init)?.init;
+  const sites: WholeStateSite[] = [];
+  for (const site of stateObjAnalysis.sites) {
+    if (site.init) {
+      continue;
+    }
+    if (site.type !== "expr" || site.hasWrite) {
+      addClassFieldError(site, softErrors);
+      continue;
+    }
+    sites.push({ path: site.path, owner: site.owner });
+  }
+  const setStateSites: WholeStateSite[] = [];
+  for (const site of setStateAnalysis.sites) {
+    if (site.type !== "expr" || site.hasWrite) {
+      addClassFieldError(site, softErrors);
+      continue;
+    }
+    const callPath = site.path.parentPath;
+    if (callPath.isCallExpression({ callee: site.path.node })) {
+      const args = callPath.get("arguments");
+      // The merging setter supports neither callbacks nor updaters referring to props
+      const updaterParams =
+        args[0]?.isArrowFunctionExpression() || args[0]?.isFunctionExpression()
+          ? args[0].node.params
+          : [];
+      if (args.length > 1 || updaterParams.length > 1) {
+        addClassFieldError(site, softErrors);
+        continue;
+      }
+    }
+    setStateSites.push({ path: site.path, owner: site.owner });
+  }
+  return {
+    init: init?.type === "init_value" ? init.valuePath : undefined,
+    typeAnnotation: preanalysis.state,
+    sites,
+    setStateSites,
+  };
+}
+
+/**
+ * Analyzes a functional update, which will be split into per-state updaters:
+ *
+ * ```js
+ * this.setState((prev) => ({ count: prev.count + 1 }));
+ * // ->
+ * setCount((count) => count + 1);
+ * ```
+ *
+ * Each value may only refer to the previous value of its own state.
+ */
+function analyzeUpdater(
+  updaterPath: NodePath<ArrowFunctionExpression | FunctionExpression>,
+  callPath: NodePath<CallExpression>,
+  owner: string | undefined
+): SetStateSite | undefined {
+  if (updaterPath.node.async || updaterPath.node.generator) {
+    return;
+  }
+  const params = updaterPath.get("params");
+  if (params.length > 2) {
+    return;
+  }
+  let objPath: NodePath = updaterPath.get("body");
+  if (objPath.isBlockStatement()) {
+    // (prev) => { return { ... }; }
+    const stmts = objPath.get("body");
+    if (stmts.length !== 1 || !stmts[0]!.isReturnStatement()) {
+      return;
+    }
+    objPath = stmts[0].get("argument") as NodePath;
+  }
+  if (!objPath.isObjectExpression()) {
+    return;
+  }
+  const fields: SetStateFieldSite[] = [];
+  for (const prop of objPath.get("properties")) {
+    const name = prop.isObjectProperty() ? memberName(prop.node) : undefined;
+    const valuePath = prop.isObjectProperty() ? prop.get("value") : undefined;
+    if (name == null || !valuePath?.isExpression()) {
+      return;
+    }
+    fields.push({ name, valuePath, prevSites: [] });
+  }
+
+  const noSites = new Map<string, NodePath<Expression>[]>();
+  const prevSites = params[0] ? collectParamSites(params[0]) : noSites;
+  const propsSites = params[1] ? collectParamSites(params[1]) : noSites;
+  if (!prevSites || !propsSites) {
+    return;
+  }
+  for (const [name, paths] of prevSites) {
+    for (const path of paths) {
+      // prev.foo is only allowed in the value of foo
+      const field = fields.find((field) => path.isDescendant(field.valuePath));
+      if (!field || field.name !== name) {
+        return;
+      }
+      field.prevSites!.push(path);
+    }
+  }
+  return {
+    path: callPath,
+    owner,
+    fields,
+    propsSites: Array.from(propsSites).flatMap(([name, paths]) =>
+      paths.map((path) => ({ name, path }))
+    ),
+  };
+}
+
+/**
+ * Collects member accesses like `prev.foo` or decompositions like `({ foo }) => ...` of an updater parameter.
+ */
+function collectParamSites(
+  paramPath: NodePath
+): Map<string, NodePath<Expression>[]> | undefined {
+  const sites = new Map<string, NodePath<Expression>[]>();
+  if (paramPath.isIdentifier()) {
+    const binding = paramPath.scope.getBinding(paramPath.node.name)!;
+    if (binding.constantViolations.length > 0) {
+      return;
+    }
+    for (const refPath of binding.referencePaths) {
+      const memberAnalysis = trackMember(refPath as NodePath<Expression>);
+      if (!memberAnalysis.memberExpr) {
+        return;
+      }
+      getOr(sites, memberAnalysis.memberExpr.name, () => []).push(
+        memberAnalysis.memberExpr.path
+      );
+    }
+  } else if (paramPath.isObjectPattern()) {
+    for (const propPath of paramPath.get("properties")) {
+      const name = propPath.isObjectProperty()
+        ? memberName(propPath.node)
+        : undefined;
+      const valuePath = propPath.isObjectProperty()
+        ? propPath.get("value")
+        : undefined;
+      if (name == null || !valuePath?.isIdentifier()) {
+        return;
+      }
+      const binding = valuePath.scope.getBinding(valuePath.node.name)!;
+      if (binding.constantViolations.length > 0) {
+        return;
+      }
+      for (const refPath of binding.referencePaths) {
+        getOr(sites, name, () => []).push(refPath as NodePath<Expression>);
+      }
+    }
+  } else {
+    return;
+  }
+  return sites;
 }
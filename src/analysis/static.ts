@@ -0,0 +1,100 @@
+import type { NodePath } from "@babel/core";
+import type { ExpressionStatement, TSType, ThisExpression } from "@babel/types";
+import { AnalysisError } from "./error.js";
+import type { ClassFieldAnalysis, FieldInit } from "./class_fields.js";
+import {
+  hasLiteralType,
+  isEntityExpression,
+  isSignatureTyped,
+} from "./signature.js";
+
+export type StaticMembersAnalysis = {
+  /**
+   * Static members to be assigned to the function component, as in `C.Item = Item;`
+   */
+  members: Map<string, StaticMemberAnalysis>;
+  /**
+   * `this` in static members, to be replaced with the component
+   */
+  thisSites: NodePath<ThisExpression>[];
+  /**
+   * `C.defaultProps = {};` after the class, to be removed
+   */
+  externalStmts: NodePath<ExpressionStatement>[];
+};
+
+export type StaticMemberAnalysis = {
+  init: FieldInit;
+  typeAnnotation?: NodePath<TSType> | undefined;
+  /**
+   * true if the type of the member can be written out, as in `Item: typeof Item`.
+   * Otherwise it is left to the inference.
+   */
+  typed: boolean;
+};
+
+/**
+ * Analyzes static members other than the special ones:
+ *
+ * ```js
+ * class C extends React.Component {
+ *   static Item = Item;
+ *   static format(x) {
+ *     return `${x}`;
+ *   }
+ * }
+ * ```
+ *
+ * They will be turned into properties on the function component.
+ */
+export function analyzeStaticMembers(
+  staticFields: Map<string, ClassFieldAnalysis>,
+  staticThisSites: NodePath<ThisExpression>[],
+  externalStaticStmts: NodePath<ExpressionStatement>[]
+): StaticMembersAnalysis {
+  const members = new Map<string, StaticMemberAnalysis>();
+  for (const [name, field] of staticFields) {
+    let init: FieldInit | undefined = undefined;
+    let typeAnnotation: NodePath<TSType> | undefined = undefined;
+    for (const site of field.sites) {
+      if (
+        site.path.isClassPrivateProperty() ||
+        site.path.isClassPrivateMethod()
+      ) {
+        throw new AnalysisError(`Cannot transform static #${name}`);
+      }
+      if (site.init) {
+        init = site.init;
+      }
+      if (site.typing?.type === "type_value") {
+        typeAnnotation = site.typing.valueTypePath;
+      }
+    }
+    if (init) {
+      members.set(name, {
+        init,
+        typeAnnotation,
+        typed: !!typeAnnotation || isInitTyped(init),
+      });
+    }
+  }
+  return {
+    members,
+    thisSites: staticThisSites,
+    externalStmts: externalStaticStmts,
+  };
+}
+
+function isInitTyped(init: FieldInit): boolean {
+  if (init.type === "init_method") {
+    return isSignatureTyped(init.methodPath);
+  }
+  const valuePath = init.valuePath;
+  if (
+    valuePath.isFunctionExpression() ||
+    valuePath.isArrowFunctionExpression()
+  ) {
+    return isSignatureTyped(valuePath);
+  }
+  return hasLiteralType(valuePath.node) || isEntityExpression(valuePath.node);
+}
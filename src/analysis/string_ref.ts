@@ -0,0 +1,199 @@
+import type { NodePath } from "@babel/core";
+import type {
+  Class,
+  Expression,
+  JSXAttribute,
+  JSXIdentifier,
+  JSXMemberExpression,
+  JSXNamespacedName,
+  JSXOpeningElement,
+} from "@babel/types";
+import { getOr } from "../utils.js";
+import { SoftErrorRepository } from "./error.js";
+import type { LocalManager } from "./local.js";
+import { ClassFieldAnalysis, addClassFieldError } from "./class_fields.js";
+import { trackMember } from "./track_member.js";
+
+export type StringRefsAnalysis = {
+  refs: Map<string, StringRefAnalysis>;
+};
+
+export type StringRefAnalysis = {
+  localName?: string | undefined;
+  /**
+   * `ref="foo"`, to be replaced with `ref={foo}`
+   */
+  attrs: NodePath<JSXAttribute>[];
+  /**
+   * `this.refs.foo`, to be replaced with `foo.current`
+   */
+  sites: NodePath<Expression>[];
+  /**
+   * The element the ref is attached to
+   */
+  elementType: RefElementType;
+};
+
+export type RefElementType =
+  | {
+      type: "intrinsic";
+      /**
+       * DOM interface, as in `HTMLInputElement` for `<input>`
+       */
+      typeName: string;
+    }
+  | {
+      type: "component";
+      /**
+       * The component, as in `Foo` for `<Foo ref="foo" />`
+       */
+      name: JSXIdentifier | JSXMemberExpression;
+    };
+
+const INTRINSIC_ELEMENT_TYPES: Record<string, string> = {
+  a: "HTMLAnchorElement",
+  audio: "HTMLAudioElement",
+  button: "HTMLButtonElement",
+  canvas: "HTMLCanvasElement",
+  dialog: "HTMLDialogElement",
+  div: "HTMLDivElement",
+  form: "HTMLFormElement",
+  h1: "HTMLHeadingElement",
+  h2: "HTMLHeadingElement",
+  h3: "HTMLHeadingElement",
+  h4: "HTMLHeadingElement",
+  h5: "HTMLHeadingElement",
+  h6: "HTMLHeadingElement",
+  iframe: "HTMLIFrameElement",
+  img: "HTMLImageElement",
+  input: "HTMLInputElement",
+  label: "HTMLLabelElement",
+  li: "HTMLLIElement",
+  ol: "HTMLOListElement",
+  option: "HTMLOptionElement",
+  p: "HTMLParagraphElement",
+  select: "HTMLSelectElement",
+  span: "HTMLSpanElement",
+  svg: "SVGSVGElement",
+  table: "HTMLTableElement",
+  textarea: "HTMLTextAreaElement",
+  ul: "HTMLUListElement",
+  video: "HTMLVideoElement",
+};
+
+/**
+ * Analyzes legacy string refs:
+ *
+ * ```js
+ * render() {
+ *   return <input ref="input" onFocus={() => this.refs.input.select()} />;
+ * }
+ * ```
+ *
+ * Each `ref="foo"` is paired with the reads of `this.refs.foo` and turned into `useRef`.
+ */
+export function analyzeStringRefs(
+  path: NodePath<Class>,
+  refsAnalysis: ClassFieldAnalysis,
+  locals: LocalManager,
+  softErrors: SoftErrorRepository
+): StringRefsAnalysis {
+  const attrs = new Map<string, NodePath<JSXAttribute>[]>();
+  path.get("body").traverse({
+    JSXAttribute(attrPath) {
+      const name = stringRefName(attrPath);
+      if (name != null) {
+        getOr(attrs, name, () => []).push(attrPath);
+      }
+    },
+    Class(classPath) {
+      // Nested classes have their own refs
+      classPath.skip();
+    },
+  });
+
+  const refs = new Map<string, StringRefAnalysis>();
+  const getRef = (name: string) =>
+    getOr(refs, name, () => {
+      const attrPaths = attrs.get(name)!;
+      return {
+        attrs: attrPaths,
+        sites: [],
+        elementType: elementTypeOf(
+          (attrPaths[0]!.parentPath.node as JSXOpeningElement).name
+        ),
+      };
+    });
+  for (const site of refsAnalysis.sites) {
+    if (site.type !== "expr" || site.hasWrite) {
+      addClassFieldError(site, softErrors);
+      continue;
+    }
+    const memberAnalysis = trackMember(site.path);
+    if (memberAnalysis.fullyDecomposed && memberAnalysis.memberAliases) {
+      // const { foo } = this.refs;
+      const names = Array.from(memberAnalysis.memberAliases.keys());
+      if (!names.every((name) => attrs.has(name))) {
+        addClassFieldError(site, softErrors);
+        continue;
+      }
+      for (const [name, aliasInfo] of memberAnalysis.memberAliases) {
+        const binding = aliasInfo.scope.getBinding(aliasInfo.localName)!;
+        locals.reserveRemoval(binding.path);
+        for (const refPath of binding.referencePaths) {
+          getRef(name).sites.push(refPath as NodePath<Expression>);
+        }
+      }
+    } else if (
+      memberAnalysis.memberExpr &&
+      attrs.has(memberAnalysis.memberExpr.name)
+    ) {
+      // this.refs.foo
+      getRef(memberAnalysis.memberExpr.name).sites.push(
+        memberAnalysis.memberExpr.path
+      );
+    } else {
+      addClassFieldError(site, softErrors);
+    }
+  }
+  // Refs that are attached but never read
+  for (const [name] of attrs) {
+    getRef(name);
+  }
+  return { refs };
+}
+
+/**
+ * Returns `foo` for `ref="foo"` or `ref={"foo"}`.
+ */
+function stringRefName(attrPath: NodePath<JSXAttribute>): string | undefined {
+  const { name, value } = attrPath.node;
+  if (name.type !== "JSXIdentifier" || name.name !== "ref") {
+    return;
+  }
+  if (value?.type === "StringLiteral") {
+    return value.value;
+  } else if (
+    value?.type === "JSXExpressionContainer" &&
+    value.expression.type === "StringLiteral"
+  ) {
+    return value.expression.value;
+  }
+}
+
+/**
+ * Infers the type of the ref from the element it is attached to.
+ */
+export function elementTypeOf(
+  tagName: JSXIdentifier | JSXMemberExpression | JSXNamespacedName
+): RefElementType {
+  if (tagName.type === "JSXIdentifier" && /^[a-z]/.test(tagName.name)) {
+    return {
+      type: "intrinsic",
+      typeName: INTRINSIC_ELEMENT_TYPES[tagName.name] ?? "HTMLElement",
+    };
+  } else if (tagName.type === "JSXNamespacedName") {
+    return { type: "intrinsic", typeName: "Element" };
+  }
+  return { type: "component", name: tagName };
+}
@@ -1,13 +1,38 @@
 import type { NodePath } from "@babel/core";
 import type { Scope } from "@babel/traverse";
-import type { Expression, Identifier, MemberExpression } from "@babel/types";
+import type {
+  Expression,
+  Identifier,
+  MemberExpression,
+  ObjectPattern,
+  VariableDeclaration,
+} from "@babel/types";
 import { memberName, memberRefName } from "../utils.js";
 
 export type ObjectExpressionAnalysis = {
   path: NodePath<Expression>;
   memberExpr?: MemberExprInfo | undefined;
   memberAliases?: Map<string, MemberAliasing> | undefined;
+  /**
+   * true if the object is only destructured into plain variables, as in `const { foo, bar: baz } = <expr>;`
+   */
   fullyDecomposed: boolean;
+  /**
+   * Set if the object is destructured with default values, nested patterns, or a rest element,
+   * as in `const { foo = 1, bar: { baz }, ...rest } = <expr>;`
+   */
+  pattern?: MemberPatternAliasing | undefined;
+  /**
+   * Set if the object itself is bound to a variable that is never reassigned, as in `const props = <expr>;`
+   */
+  objectAlias?: NodePath<Identifier> | undefined;
+};
+
+export type TrackMemberOptions = {
+  /**
+   * Also decompose into `let` or `var` variables reassigned later, marking them as `reassigned`
+   */
+  allowReassigned?: boolean | undefined;
 };
 
 export type MemberExprInfo = {
@@ -19,14 +44,52 @@ export type MemberAliasing = {
   scope: Scope;
   localName: string;
   idPath: NodePath<Identifier>;
+  /**
+   * The default value, as in `const { foo = 1 } = <expr>;`
+   */
+  defaultValue?: NodePath<Expression> | undefined;
+  /**
+   * true if the variable is reassigned later, as in `let { foo } = <expr>; foo = 1;`
+   *
+   * Such a variable cannot be replaced with the hoisted one, so a fresh copy is declared instead.
+   */
+  reassigned?: boolean | undefined;
+  declPath: NodePath<VariableDeclaration>;
+};
+
+/**
+ * A fresh variable replacing a reassigned alias, as in `let foo0 = foo;`
+ */
+export type AliasCopy = {
+  /**
+   * The declaration the copy is inserted before
+   */
+  declPath: NodePath<VariableDeclaration>;
+  newName?: string | undefined;
+};
+
+export type MemberPatternAliasing = {
+  path: NodePath<ObjectPattern>;
+  /**
+   * Keys destructured from the object, except for those taken by the rest element
+   */
+  keys: string[];
+  /**
+   * true if it has a rest element, which takes the remaining keys
+   */
+  hasRest: boolean;
 };
 
 export function trackMember(
-  path: NodePath<Expression>
+  path: NodePath<Expression>,
+  options: TrackMemberOptions = {}
 ): ObjectExpressionAnalysis {
+  const { allowReassigned = false } = options;
   let memberExpr: MemberExprInfo | undefined = undefined;
   let memberAliases: Map<string, MemberAliasing> | undefined = undefined;
   let fullyDecomposed = false;
+  let pattern: MemberPatternAliasing | undefined = undefined;
+  let objectAlias: NodePath<Identifier> | undefined = undefined;
   const path1 = path.parentPath;
   if (path1.isMemberExpression({ object: path.node })) {
     // Check for `<expr>.foo`
@@ -37,45 +100,115 @@ export function trackMember(
         path: path1,
       };
       const idPath = getSimpleAliasing(path1);
-      if (idPath) {
+      const reassigned = idPath && isReassigned(idPath);
+      if (idPath && (!reassigned || allowReassigned)) {
         // Found `const foo = <expr>.foo;`
         memberAliases = new Map<string, MemberAliasing>();
         memberAliases.set(name, {
           scope: idPath.scope,
           localName: idPath.node.name,
           idPath,
+          reassigned,
+          declPath: idPath.parentPath
+            .parentPath as NodePath<VariableDeclaration>,
         });
         fullyDecomposed = true;
       }
     }
   } else if (path1.isVariableDeclarator({ init: path.node })) {
     const path2 = path1.parentPath;
-    if (path2.isVariableDeclaration({ kind: "const" })) {
+    if (path2.isVariableDeclaration() && isAliasable(path2)) {
       // Check for `const { foo } = <expr>;`
       const lvPath = path1.get("id");
-      if (lvPath.isObjectPattern()) {
+      if (lvPath.isIdentifier() && !isReassigned(lvPath)) {
+        // const props = <expr>;
+        objectAlias = lvPath;
+      } else if (lvPath.isObjectPattern()) {
         fullyDecomposed = true;
+        let patternDecomposed = true;
+        let hasRest = false;
         memberAliases = new Map<string, MemberAliasing>();
+        const keys: string[] = [];
         for (const propPath of lvPath.get("properties")) {
-          let ok = false;
-          if (propPath.isObjectProperty()) {
-            const name = memberName(propPath.node);
-            const valuePath = propPath.get("value");
-            if (name != null && valuePath.isIdentifier()) {
-              ok = true;
-              memberAliases.set(name, {
-                scope: valuePath.scope,
-                localName: valuePath.node.name,
-                idPath: valuePath,
-              });
-            }
+          if (propPath.isRestElement()) {
+            // const { foo, ...rest } = <expr>;
+            fullyDecomposed = false;
+            hasRest = true;
+            const argPath = propPath.get("argument");
+            patternDecomposed &&=
+              argPath.isIdentifier() && !isReassigned(argPath);
+            continue;
+          }
+          const name = propPath.isObjectProperty()
+            ? memberName(propPath.node)
+            : undefined;
+          if (name == null || keys.includes(name)) {
+            fullyDecomposed = patternDecomposed = false;
+            continue;
+          }
+          keys.push(name);
+          const valuePath = propPath.get("value") as NodePath;
+          if (valuePath.isIdentifier() && isReassigned(valuePath)) {
+            // let { foo } = <expr>; foo = 1;
+            fullyDecomposed &&= allowReassigned;
+            patternDecomposed = false;
+            memberAliases.set(name, {
+              scope: valuePath.scope,
+              localName: valuePath.node.name,
+              idPath: valuePath,
+              reassigned: true,
+              declPath: path2,
+            });
+          } else if (valuePath.isIdentifier()) {
+            memberAliases.set(name, {
+              scope: valuePath.scope,
+              localName: valuePath.node.name,
+              idPath: valuePath,
+              declPath: path2,
+            });
+          } else if (
+            valuePath.isAssignmentPattern() &&
+            valuePath.get("left").isIdentifier()
+          ) {
+            // const { foo = 1 } = <expr>;
+            const leftPath = valuePath.get("left") as NodePath<Identifier>;
+            fullyDecomposed = false;
+            memberAliases.set(name, {
+              scope: leftPath.scope,
+              localName: leftPath.node.name,
+              idPath: leftPath,
+              defaultValue: valuePath.get("right"),
+              declPath: path2,
+            });
+            patternDecomposed &&= !isReassigned(leftPath);
+          } else if (
+            valuePath.isObjectPattern() ||
+            valuePath.isArrayPattern() ||
+            valuePath.isAssignmentPattern()
+          ) {
+            // const { foo: { bar } } = <expr>;
+            fullyDecomposed = false;
+            patternDecomposed &&= Object.values(
+              valuePath.getBindingIdentifierPaths()
+            ).every((idPath) => !isReassigned(idPath));
+          } else {
+            fullyDecomposed = patternDecomposed = false;
           }
-          fullyDecomposed &&= ok;
+        }
+        if (!fullyDecomposed && patternDecomposed) {
+          pattern = { path: lvPath, keys, hasRest };
         }
       }
     }
   }
-  return { path, memberExpr, memberAliases, fullyDecomposed };
+  return {
+    path,
+    memberExpr,
+    memberAliases,
+    fullyDecomposed,
+    pattern,
+    objectAlias,
+  };
 }
 
 function getSimpleAliasing(
@@ -84,7 +217,7 @@ function getSimpleAliasing(
   const path1 = path.parentPath;
   if (path1.isVariableDeclarator({ init: path.node })) {
     const path2 = path1.parentPath;
-    if (path2.isVariableDeclaration({ kind: "const" })) {
+    if (path2.isVariableDeclaration() && isAliasable(path2)) {
       const idPath = path1.get("id");
       if (idPath.isIdentifier()) {
         return idPath;
@@ -93,3 +226,16 @@ function getSimpleAliasing(
   }
   return undefined;
 }
+
+/**
+ * Checks if variables in the declaration can be replaced with hoisted ones.
+ * `let` and `var` are also accepted if they are declared as a statement (not as in `for (let i = 0; ...)`).
+ */
+function isAliasable(declPath: NodePath<VariableDeclaration>): boolean {
+  return declPath.node.kind === "const" || declPath.inList;
+}
+
+function isReassigned(idPath: NodePath<Identifier>): boolean {
+  const binding = idPath.scope.getBinding(idPath.node.name);
+  return !!binding && binding.constantViolations.length > 0;
+}
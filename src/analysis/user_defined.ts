@@ -5,6 +5,8 @@ import {
   ClassPrivateMethod,
   Expression,
   FunctionExpression,
+  JSXAttribute,
+  JSXOpeningElement,
   TSType,
 } from "@babel/types";
 import { getOr, isClassMethodLike, nonNullPath } from "../utils.js";
@@ -17,6 +19,8 @@ import {
 } from "./class_fields.js";
 import { PropsObjAnalysis } from "./prop.js";
 import { StateObjAnalysis } from "./state.js";
+import { ContextObjAnalysis } from "./context.js";
+import { RefElementType, elementTypeOf } from "./string_ref.js";
 
 const SPECIAL_MEMBER_NAMES = new Set<string>([
   // Special variables
@@ -65,8 +69,32 @@ export type UserDefinedDirectRef = {
   type: "user_defined_direct_ref";
   localName?: string | undefined;
   init: NodePath<Expression> | undefined;
+  /**
+   * true if the initializer seems to have side effects, as in `store = new Store()`,
+   * so that it should be evaluated only once.
+   */
+  lazyInit: boolean;
+  /**
+   * The ref to remember that the lazy initializer has run, as in `storeInitialized`
+   */
+  initFlagName?: string | undefined;
   typeAnnotation?: NodePath<TSType> | undefined;
   sites: ClassFieldSite[];
+  /**
+   * Set if the field is only written by callback refs, as in `ref={(el) => this.foo = el}`
+   */
+  callbackRef?: CallbackRefAnalysis | undefined;
+};
+
+export type CallbackRefAnalysis = {
+  /**
+   * The callbacks, as in `(el) => this.foo = el` or `this.setFoo`, to be replaced with the ref object
+   */
+  callbackSites: NodePath<Expression>[];
+  /**
+   * The element the ref is attached to
+   */
+  elementType: RefElementType;
 };
 export type UserDefinedFn = {
   type: "user_defined_function";
@@ -93,6 +121,9 @@ export type CallbackDependency =
   | CallbackDependencyProp
   | CallbackDependencyPropAlias
   | CallbackDependencyState
+  | CallbackDependencyStateObj
+  | CallbackDependencyContext
+  | CallbackDependencyLegacyContext
   | CallbackDependencyFn;
 
 export type CallbackDependencyPropsObj = {
@@ -110,6 +141,16 @@ export type CallbackDependencyState = {
   type: "dep_state";
   name: string;
 };
+export type CallbackDependencyStateObj = {
+  type: "dep_state_obj";
+};
+export type CallbackDependencyContext = {
+  type: "dep_context";
+};
+export type CallbackDependencyLegacyContext = {
+  type: "dep_legacy_context";
+  name: string;
+};
 export type CallbackDependencyFn = {
   type: "dep_function";
   name: string;
@@ -117,6 +158,7 @@ export type CallbackDependencyFn = {
 
 export function analyzeUserDefined(
   instanceFields: Map<string, ClassFieldAnalysis>,
+  exposed: ReadonlySet<string>,
   softErrors: SoftErrorRepository
 ): UserDefinedAnalysis {
   const fields = new Map<string, UserDefined>();
@@ -227,12 +269,15 @@ export function analyzeUserDefined(
       fields.set(name, {
         type: "user_defined_direct_ref",
         init: valInit,
+        lazyInit: !!initSite?.hasSideEffect,
         typeAnnotation: valInitType,
         sites: field.sites,
       });
     }
   }
 
+  analyzeCallbackRefs(fields);
+
   // Analysis for `useCallback` inference
   // preDependencies: dependency between methods
   const preDependencies = new Map<string, string[]>();
@@ -262,6 +307,11 @@ export function analyzeUserDefined(
         }
       }
     }
+    if (exposed.has(name) && !ud.needMemo) {
+      // Exposed via useImperativeHandle
+      queue.push(name);
+      ud.needMemo = true;
+    }
   }
   // Do a search (BFS or DFS) to expand needMemo frontier
   while (queue.length > 0) {
@@ -306,10 +356,155 @@ export function analyzeUserDefined(
   return { fields: reorderedFields };
 }
 
+/**
+ * Detects fields only written by callback refs:
+ *
+ * ```js
+ * <div ref={(el) => this.container = el} />
+ * // or
+ * setContainer = (el) => {
+ *   this.container = el;
+ * };
+ * <div ref={this.setContainer} />
+ * ```
+ *
+ * Such fields are transformed to ref objects passed directly, as in `ref={container}`.
+ * Setters like `setContainer` above are removed.
+ */
+function analyzeCallbackRefs(fields: Map<string, UserDefined>) {
+  for (const [, field] of fields) {
+    if (
+      field.type !== "user_defined_direct_ref" ||
+      (field.init && !field.init.isNullLiteral())
+    ) {
+      continue;
+    }
+    const writes = field.sites.filter(
+      (site) => site.type === "expr" && site.hasWrite
+    );
+    if (writes.length === 0) {
+      continue;
+    }
+    const callbackSites: NodePath<Expression>[] = [];
+    const setterNames: string[] = [];
+    const attrPaths: NodePath<JSXAttribute>[] = [];
+    let ok = true;
+    for (const site of writes) {
+      const fnPath = callbackRefFunction(site.path);
+      if (!fnPath) {
+        ok = false;
+        break;
+      }
+      if (!fnPath.isClassMethod() && isRefAttrValue(fnPath)) {
+        // ref={(el) => this.container = el}
+        callbackSites.push(fnPath as NodePath<Expression>);
+        attrPaths.push(fnPath.parentPath!.parentPath as NodePath<JSXAttribute>);
+        continue;
+      }
+      // ref={this.setContainer}
+      const setter = site.owner != null ? fields.get(site.owner) : undefined;
+      const setterSites =
+        setter?.type === "user_defined_function"
+          ? setter.sites.filter((s) => s.type === "expr")
+          : [];
+      if (
+        setter?.type !== "user_defined_function" ||
+        (setter.init.type === "method"
+          ? setter.init.path
+          : setter.init.initPath) !== fnPath ||
+        setterSites.length === 0 ||
+        !setterSites.every((s) => !s.hasWrite && isRefAttrValue(s.path))
+      ) {
+        ok = false;
+        break;
+      }
+      for (const setterSite of setterSites) {
+        callbackSites.push(setterSite.path as NodePath<Expression>);
+        attrPaths.push(
+          setterSite.path.parentPath.parentPath as NodePath<JSXAttribute>
+        );
+      }
+      setterNames.push(site.owner!);
+    }
+    if (!ok) {
+      continue;
+    }
+    field.callbackRef = {
+      callbackSites,
+      elementType: elementTypeOf(
+        (attrPaths[0]!.parentPath.node as JSXOpeningElement).name
+      ),
+    };
+    field.sites = field.sites.filter((site) => !writes.includes(site));
+    for (const setterName of setterNames) {
+      fields.delete(setterName);
+    }
+  }
+}
+
+/**
+ * Returns the function if the write is the only thing it does, as in `(el) => this.foo = el`.
+ */
+function callbackRefFunction(writePath: NodePath): NodePath | undefined {
+  const assignPath = writePath.parentPath;
+  if (
+    !assignPath?.isAssignmentExpression({ operator: "=" }) ||
+    assignPath.node.left !== writePath.node
+  ) {
+    return;
+  }
+  const right = assignPath.node.right;
+  let fnPath = assignPath.parentPath;
+  if (fnPath.isExpressionStatement()) {
+    // (el) => { this.foo = el; }
+    const blockPath = fnPath.parentPath;
+    if (!blockPath.isBlockStatement() || blockPath.node.body.length !== 1) {
+      return;
+    }
+    fnPath = blockPath.parentPath;
+  }
+  if (
+    !(
+      fnPath.isArrowFunctionExpression() ||
+      fnPath.isFunctionExpression() ||
+      fnPath.isClassMethod({ kind: "method" })
+    ) ||
+    fnPath.node.async ||
+    fnPath.node.generator
+  ) {
+    return;
+  }
+  const params = fnPath.node.params;
+  if (
+    params.length !== 1 ||
+    params[0]!.type !== "Identifier" ||
+    right.type !== "Identifier" ||
+    params[0]!.name !== right.name
+  ) {
+    return;
+  }
+  return fnPath;
+}
+
+/**
+ * Checks for `ref={<expr>}`
+ */
+function isRefAttrValue(path: NodePath): boolean {
+  const containerPath = path.parentPath;
+  const attrPath = containerPath?.parentPath;
+  return (
+    !!containerPath?.isJSXExpressionContainer() &&
+    !!attrPath?.isJSXAttribute() &&
+    attrPath.node.name.type === "JSXIdentifier" &&
+    attrPath.node.name.name === "ref"
+  );
+}
+
 export function postAnalyzeCallbackDependencies(
   userDefined: UserDefinedAnalysis,
   props: PropsObjAnalysis,
   states: StateObjAnalysis,
+  context: ContextObjAnalysis,
   instanceFields: Map<string, ClassFieldAnalysis>
 ) {
   for (const [name, prop] of props.props) {
@@ -366,6 +561,37 @@ export function postAnalyzeCallbackDependencies(
       type: "dep_props_obj",
     });
   }
+  for (const pattern of props.patterns) {
+    if (pattern.owner == null) {
+      continue;
+    }
+    const ownerField = userDefined.fields.get(pattern.owner);
+    if (ownerField?.type !== "user_defined_function") {
+      continue;
+    }
+    for (const name of pattern.keys) {
+      ownerField.dependencies.push({
+        type: "dep_prop_alias",
+        name,
+      });
+    }
+  }
+  for (const setStateSite of states.setStateSites) {
+    if (setStateSite.owner == null) {
+      continue;
+    }
+    const ownerField = userDefined.fields.get(setStateSite.owner);
+    if (ownerField?.type !== "user_defined_function") {
+      continue;
+    }
+    for (const propsSite of setStateSite.propsSites) {
+      // props.step in functional updates refers to the alias, as in `setFoo((foo) => foo + step)`
+      ownerField.dependencies.push({
+        type: "dep_prop_alias",
+        name: propsSite.name,
+      });
+    }
+  }
   for (const [name, state] of states.states) {
     for (const site of state.sites) {
       if (site.type !== "expr") {
@@ -385,6 +611,73 @@ export function postAnalyzeCallbackDependencies(
       });
     }
   }
+  for (const aliasCopy of states.aliasCopies) {
+    if (aliasCopy.owner == null) {
+      continue;
+    }
+    const ownerField = userDefined.fields.get(aliasCopy.owner);
+    if (ownerField?.type !== "user_defined_function") {
+      continue;
+    }
+    ownerField.dependencies.push({
+      type: "dep_state",
+      name: aliasCopy.name,
+    });
+  }
+  for (const site of states.patternSites) {
+    if (site.owner == null) {
+      continue;
+    }
+    const ownerField = userDefined.fields.get(site.owner);
+    if (ownerField?.type !== "user_defined_function") {
+      continue;
+    }
+    for (const name of site.names) {
+      ownerField.dependencies.push({
+        type: "dep_state",
+        name,
+      });
+    }
+  }
+  for (const site of states.whole?.sites ?? []) {
+    if (site.owner == null) {
+      continue;
+    }
+    const ownerField = userDefined.fields.get(site.owner);
+    if (ownerField?.type !== "user_defined_function") {
+      continue;
+    }
+    ownerField.dependencies.push({
+      type: "dep_state_obj",
+    });
+  }
+  for (const site of context.sites) {
+    if (site.owner == null) {
+      continue;
+    }
+    const ownerField = userDefined.fields.get(site.owner);
+    if (ownerField?.type !== "user_defined_function") {
+      continue;
+    }
+    ownerField.dependencies.push({
+      type: "dep_context",
+    });
+  }
+  for (const [name, consumer] of context.legacyConsumers) {
+    for (const site of consumer.sites) {
+      if (site.owner == null) {
+        continue;
+      }
+      const ownerField = userDefined.fields.get(site.owner);
+      if (ownerField?.type !== "user_defined_function") {
+        continue;
+      }
+      ownerField.dependencies.push({
+        type: "dep_legacy_context",
+        name,
+      });
+    }
+  }
   for (const [name, field] of instanceFields) {
     const ud = userDefined.fields.get(name);
     if (ud?.type !== "user_defined_function") {
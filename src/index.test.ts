@@ -1,15 +1,16 @@
 import { describe, it, expect, test } from "@jest/globals";
 import { transform as transformCore } from "@codemod/core";
 import { dedent } from "@qnighy/dedent";
-import plugin from "./index.js";
+import plugin, { type Options } from "./index.js";
 
 function transform(
   code: string,
   options: {
     ts?: boolean | undefined;
+    pluginOptions?: Options | undefined;
   } = {}
 ) {
-  const { ts } = options;
+  const { ts, pluginOptions = {} } = options;
   const result = transformCore(code, {
     configFile: false,
     babelrc: false,
@@ -17,7 +18,7 @@ function transform(
     parserOpts: {
       plugins: ts ? ["jsx", "typescript"] : ["jsx"],
     },
-    plugins: [plugin],
+    plugins: [[plugin, pluginOptions]],
   });
   return result.code;
 }
@@ -166,13 +167,22 @@ describe("react-declassify", () => {
         }
       `;
       const output = dedent`\
-        const C = () => {
+        const defaultProps = {
+          foo: 42,
+        };
+
+        const C = rawProps => {
+          const props = {
+            ...defaultProps,
+            ...rawProps
+          };
+
           TODO_this.componentWillReceiveProps = function() {
             console.log("foo");
           };
 
           console.log(TODO_this.state);
-          console.log(TODO_this.props);
+          console.log(props);
         };
       `;
       expect(transform(input)).toBe(output);
@@ -435,6 +445,221 @@ describe("react-declassify", () => {
       `;
       expect(transform(input)).toBe(output);
     });
+    it("transforms a class expression assigned to a variable", () => {
+      const input = dedent`\
+        const C = class extends React.Component {
+          render() {
+            return <div>Hello, world!</div>;
+          }
+        };
+      `;
+      const output = dedent`\
+        const C = () => {
+          return <div>Hello, world!</div>;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("transforms a class expression with types", () => {
+      const input = dedent`\
+        type Props = {
+          text: string;
+        };
+        export const C = class extends React.Component<Props> {
+          render() {
+            return <div>Hello, {this.props.text}!</div>;
+          }
+        };
+      `;
+      const output = dedent`\
+        type Props = {
+          text: string;
+        };
+        export const C: React.FC<Props> = props => {
+          return <div>Hello, {props.text}!</div>;
+        };
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("names a pure class expression after the variable", () => {
+      const input = dedent`\
+        const C = class extends React.PureComponent {
+          render() {
+            return <div>Hello, world!</div>;
+          }
+        };
+      `;
+      const output = dedent`\
+        const C = React.memo(function C() {
+          return <div>Hello, world!</div>;
+        });
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("renames references to the inner name of a class expression to the variable", () => {
+      const input = dedent`\
+        const D = class Named extends React.Component {
+          static foo = 1;
+          render() {
+            return this.props.depth > 0 ? <Named depth={this.props.depth - 1} /> : <div>{Named.foo}</div>;
+          }
+        };
+      `;
+      const output = dedent`\
+        const D = props => {
+          return props.depth > 0 ? <D depth={props.depth - 1} /> : <div>{D.foo}</div>;
+        };
+        D.foo = 1;
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("transforms a class expression wrapped in HOC calls", () => {
+      const input = dedent`\
+        export default connect(mapState)(class extends React.Component {
+          render() {
+            return <div>Hello, {this.props.name}!</div>;
+          }
+        });
+      `;
+      const output = dedent`\
+        export default connect(mapState)(props => {
+          return <div>Hello, {props.name}!</div>;
+        });
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("keeps the name of a class expression wrapped in HOC calls", () => {
+      const input = dedent`\
+        import { Component } from "react";
+        export default withStyles(styles)(class Foo extends Component {
+          render() {
+            return <div>Hello, world!</div>;
+          }
+        });
+      `;
+      const output = dedent`\
+        import { Component } from "react";
+        export default withStyles(styles)(function Foo() {
+          return <div>Hello, world!</div>;
+        });
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("hoists a class expression wrapped in HOC calls in TypeScript", () => {
+      const input = dedent`\
+        import { Component } from "react";
+        type Props = {
+          name: string;
+        };
+        export default withStyles(styles)(class Foo extends Component<Props> {
+          render() {
+            return <div>Hello, {this.props.name}!</div>;
+          }
+        });
+      `;
+      const output = dedent`\
+        import { Component, FC } from "react";
+        type Props = {
+          name: string;
+        };
+
+        const Foo: FC<Props> = props => {
+          return <div>Hello, {props.name}!</div>;
+        };
+
+        export default withStyles(styles)(Foo);
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("renames references to a hoisted class expression in its body", () => {
+      const input = dedent`\
+        const Foo = 1;
+        type Props = { depth: number };
+        export default withStyles(styles)(class Foo extends React.Component<Props> {
+          render() {
+            return this.props.depth > 0 ? <Foo depth={this.props.depth - 1} /> : null;
+          }
+        });
+      `;
+      const output = dedent`\
+        const Foo = 1;
+        type Props = { depth: number };
+
+        const _Foo: React.FC<Props> = props => {
+          return props.depth > 0 ? <_Foo depth={props.depth - 1} /> : null;
+        };
+
+        export default withStyles(styles)(_Foo);
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("names an anonymous class expression wrapped in HOC calls after the variable", () => {
+      const input = dedent`\
+        type Props = { name: string };
+        export const Card = connect(mapState)(class extends React.Component<Props> {
+          static displayName = "Card";
+          render() {
+            return <div>{this.props.name}</div>;
+          }
+        });
+      `;
+      const output = dedent`\
+        type Props = { name: string };
+
+        const CardComponent: React.FC<Props> = props => {
+          return <div>{props.name}</div>;
+        };
+
+        CardComponent.displayName = "Card";
+        export const Card = connect(mapState)(CardComponent);
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("transforms a class expression in export default", () => {
+      const input = dedent`\
+        export default (class extends React.Component {
+          render() {
+            return <div>Hello, world!</div>;
+          }
+        });
+      `;
+      const output = dedent`\
+        export default () => {
+          return <div>Hello, world!</div>;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("adds error message to the declaration of a class expression", () => {
+      const input = dedent`\
+        const C = class extends React.Component {};
+      `;
+      const output = dedent`\
+        /* react-declassify-disable Cannot perform transformation: Missing render method */
+        const C = class extends React.Component {};
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("ignores a class expression if marked as react-declassify-disable", () => {
+      const input = dedent`\
+        /* react-declassify-disable */
+        const C = class extends React.Component {
+          render() {}
+        };
+      `;
+      expect(transform(input)).toBe(input);
+    });
   });
 
   describe("Render function transformation", () => {
@@ -645,6 +870,106 @@ describe("react-declassify", () => {
       expect(transform(input)).toBe(output);
     });
 
+    it("transforms this.props destructuring with defaults, nested patterns and rests", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          render() {
+            const { title, size = "medium", style: { color }, ...rest } = this.props;
+            return <button className={size} style={{ color }} {...rest} onClick={this.handleClick}>{title}</button>;
+          }
+
+          handleClick = () => {
+            const { onClick, ...rest } = this.props;
+            onClick(rest);
+          };
+        }
+      `;
+      const output = dedent`\
+        const C = props => {
+          const handleClick = React.useCallback(() => {
+            const { onClick, ...rest } = props;
+            onClick(rest);
+          }, [props]);
+
+          const { title, size = "medium", style: { color }, ...rest } = props;
+          return <button className={size} style={{ color }} {...rest} onClick={handleClick}>{title}</button>;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("keeps nested this.props destructuring in guards in place", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          handleClick = () => {
+            if (this.props.style) {
+              const { style: { color }, size = "medium" } = this.props;
+              log(color, size);
+            }
+          };
+          render() {
+            return <button onClick={this.handleClick} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = props => {
+          const {
+            style,
+            size
+          } = props;
+
+          const handleClick = React.useCallback(() => {
+            if (props.style) {
+              const { style: { color }, size = "medium" } = {
+                style,
+                size
+              };
+              log(color, size);
+            }
+          }, [size, style, props.style]);
+
+          return <button onClick={handleClick} />;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("transforms let and var aliases of this.props", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          foo() {
+            var props = this.props;
+            return props.a;
+          }
+          render() {
+            let { items, title } = this.props;
+            var size = this.props.size;
+            items = items.filter(Boolean);
+            return <div title={title} className={size}>{items}{this.foo()}</div>;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = props => {
+          const {
+            items,
+            title,
+            size
+          } = props;
+
+          function foo() {
+            return props.a;
+          }
+
+          let items0 = items;
+          items0 = items0.filter(Boolean);
+          return <div title={title} className={size}>{items0}{foo()}</div>;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
     it("Transforms defaultProps", () => {
       const input = dedent`\
         class C extends React.Component {
@@ -712,48 +1037,152 @@ describe("react-declassify", () => {
       expect(transform(input, { ts: true })).toBe(output);
     });
 
-    it("transforms method types", () => {
+    it("merges defaultProps into props used as a whole", () => {
       const input = dedent`\
-        class C extends React.Component {
+        class Button extends React.Component {
           render() {
-            return null;
-          }
-
-          foo(x: number): number {
-            return x + 42;
-          }
-
-          bar: MyHandler = (x) => {
-            return x + 42;
+            return <button onClick={() => track(this.props)}>{this.props.label}</button>;
           }
         }
+
+        Button.defaultProps = {
+          label: "OK",
+        };
       `;
       const output = dedent`\
-        const C: React.FC = () => {
-          function foo(x: number): number {
-            return x + 42;
-          }
+        const defaultProps = {
+          label: "OK",
+        };
 
-          const bar: MyHandler = (x) => {
-            return x + 42;
+        const Button = rawProps => {
+          const props = {
+            ...defaultProps,
+            ...rawProps
           };
 
-          return null;
+          const {
+            label
+          } = props;
+
+          return <button onClick={() => track(props)}>{label}</button>;
         };
       `;
-      expect(transform(input, { ts: true })).toBe(output);
+      expect(transform(input)).toBe(output);
     });
 
-    it("memoizes methods if necessary", () => {
+    it("merges defaultProps into props used as a whole in TypeScript", () => {
       const input = dedent`\
-        class C extends React.Component {
-          render() {
-            this.bar();
-            return <div onClick={this.foo} />;
-          }
+        type Props = {
+          color: string;
+          label: string;
+        };
 
-          foo = () => {
-            this.baz();
+        class Button extends React.Component<Props> {
+          static defaultProps = {
+            color: "red",
+          };
+
+          render() {
+            const { color } = this.props;
+            return <Inner {...this.props} style={{ color }} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        type Props = {
+          color?: string | undefined
+          label: string;
+        };
+
+        const defaultProps = {
+          color: "red",
+        };
+
+        const Button: React.FC<Props> = rawProps => {
+          const props = {
+            ...defaultProps,
+            ...rawProps
+          };
+
+          const {
+            color
+          } = props;
+
+          return <Inner {...props} style={{ color }} />;
+        };
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("merges defaultProps into props destructured with rests", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          static defaultProps = { size: "medium" };
+
+          render() {
+            const { size, ...rest } = this.props;
+            return <button className={size} {...rest} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        const defaultProps = { size: "medium" };
+
+        const C = rawProps => {
+          const props = {
+            ...defaultProps,
+            ...rawProps
+          };
+
+          const { size, ...rest } = props;
+          return <button className={size} {...rest} />;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("transforms method types", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          render() {
+            return null;
+          }
+
+          foo(x: number): number {
+            return x + 42;
+          }
+
+          bar: MyHandler = (x) => {
+            return x + 42;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C: React.FC = () => {
+          function foo(x: number): number {
+            return x + 42;
+          }
+
+          const bar: MyHandler = (x) => {
+            return x + 42;
+          };
+
+          return null;
+        };
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("memoizes methods if necessary", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          render() {
+            this.bar();
+            return <div onClick={this.foo} />;
+          }
+
+          foo = () => {
+            this.baz();
           };
 
           bar = () => {
@@ -843,6 +1272,271 @@ describe("react-declassify", () => {
     });
   });
 
+  describe("Static members", () => {
+    it("transforms static members to properties", () => {
+      const input = dedent`\
+        export default class List extends React.Component {
+          static propTypes = {
+            items: PropTypes.array,
+          };
+          static Item = ListItem;
+          static format(item) {
+            return this.prefix + item;
+          }
+
+          render() {
+            return <div>{this.props.items.map(List.format)}</div>;
+          }
+        }
+      `;
+      const output = dedent`\
+        const List = props => {
+          return <div>{props.items.map(List.format)}</div>;
+        };
+
+        List.propTypes = {
+          items: PropTypes.array,
+        };
+
+        List.Item = ListItem;
+
+        List.format = function format(item) {
+          return List.prefix + item;
+        };
+
+        export default List;
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("transforms static members with types", () => {
+      const input = dedent`\
+        type Props = {
+          items: string[];
+        };
+
+        export class List extends React.Component<Props> {
+          static Item = ListItem;
+          static displayName = "List";
+          static separator = ", ";
+          static format(item: string, upper = false): string {
+            return upper ? item.toUpperCase() : item;
+          }
+          static formatAll = (items: string[]): string[] => items.map((item) => this.format(item));
+
+          render() {
+            return <div>{List.formatAll(this.props.items).join(List.separator)}</div>;
+          }
+        }
+      `;
+      const output = dedent`\
+        type Props = {
+          items: string[];
+        };
+
+        export const List: React.FC<Props> & {
+          Item: typeof ListItem,
+          separator: string,
+          format: (item: string, upper?: boolean) => string,
+          formatAll: (items: string[]) => string[]
+        } = props => {
+          return <div>{List.formatAll(props.items).join(List.separator)}</div>;
+        };
+        List.Item = ListItem;
+        List.displayName = "List";
+        List.separator = ", ";
+
+        List.format = function format(item: string, upper = false): string {
+          return upper ? item.toUpperCase() : item;
+        };
+
+        List.formatAll = (items: string[]): string[] => items.map((item) => List.format(item));
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("leaves the type to the inference if some static members cannot be typed", () => {
+      const input = dedent`\
+        type Props = {
+          n: number;
+        };
+
+        class C extends React.Component<Props> {
+          static format(x: number) {
+            return x + 1;
+          }
+          static config = createConfig();
+
+          render() {
+            return <div>{C.format(this.props.n)}</div>;
+          }
+        }
+      `;
+      const output = dedent`\
+        type Props = {
+          n: number;
+        };
+
+        const C = (props: Props) => {
+          return <div>{C.format(props.n)}</div>;
+        };
+
+        C.format = function format(x: number) {
+          return x + 1;
+        };
+
+        C.config = createConfig();
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("keeps the props type in the signature if statics cannot be typed and props are unused", () => {
+      const input = dedent`\
+        type Props = { label?: string };
+
+        export class C extends React.Component<Props> {
+          static config = createConfig();
+
+          render() {
+            return <div />;
+          }
+        }
+      `;
+      const output = dedent`\
+        type Props = { label?: string };
+
+        export const C = (_props: Props) => {
+          return <div />;
+        };
+        C.config = createConfig();
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("errors on static members of anonymous classes", () => {
+      const input = dedent`\
+        export default class extends React.Component {
+          static Item = ListItem;
+
+          render() {
+            return <div />;
+          }
+        }
+      `;
+      const output = dedent`\
+        /* react-declassify-disable Cannot perform transformation: Cannot transform static members of an anonymous class */
+        export default class extends React.Component {
+          static Item = ListItem;
+
+          render() {
+            return <div />;
+          }
+        }
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("picks up static members assigned after the class", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          render() {
+            const { text, color } = this.props;
+            return <div style={{ color }}>{text}</div>;
+          }
+        }
+
+        C.defaultProps = {
+          color: "red",
+        };
+        C.propTypes = {
+          text: PropTypes.string,
+          color: PropTypes.string,
+        };
+        C.displayName = "Colored";
+      `;
+      const output = dedent`\
+        const C = props => {
+          const {
+            text,
+            color = "red"
+          } = props;
+          return <div style={{ color }}>{text}</div>;
+        };
+
+        C.propTypes = {
+          text: PropTypes.string,
+          color: PropTypes.string,
+        };
+
+        C.displayName = "Colored";
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("leaves defaultProps assigned after the class if referenced elsewhere", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          render() {
+            return <div>{this.props.a}{this.props.b}</div>;
+          }
+        }
+
+        C.defaultProps = { a: 1 };
+        C.defaultProps.b = 2;
+        C.displayName = "Named";
+      `;
+      const output = dedent`\
+        const C = props => {
+          return <div>{props.a}{props.b}</div>;
+        };
+
+        C.displayName = "Named";
+
+        C.defaultProps = { a: 1 };
+        C.defaultProps.b = 2;
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("picks up defaultProps assigned after the class expression", () => {
+      const input = dedent`\
+        type Props = {
+          text: string;
+          color?: string;
+        };
+
+        export const C = class extends React.Component<Props> {
+          render() {
+            const { text, color } = this.props;
+            return <div style={{ color }}>{text}</div>;
+          }
+        };
+
+        C.defaultProps = {
+          color: "red",
+        };
+        C.displayName = "Colored";
+      `;
+      const output = dedent`\
+        type Props = {
+          text: string;
+          color?: string | undefined;
+        };
+
+        export const C: React.FC<Props> = props => {
+          const {
+            text,
+            color = "red"
+          } = props;
+          return <div style={{ color }}>{text}</div>;
+        };
+
+        C.displayName = "Colored";
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+  });
+
   describe("State transformation", () => {
     it("transforms simple states", () => {
       const input = dedent`\
@@ -981,307 +1675,410 @@ describe("react-declassify", () => {
       expect(transform(input)).toBe(output);
     });
 
-    it("transforms setState in constructor", () => {
+    it("transforms state destructuring with nested patterns and rests", () => {
       const input = dedent`\
         class C extends React.Component {
-          constructor(props) {
-            super(props);
-            this.reset = () => {
-              this.setState({ foo: 42 });
-            };
-          }
+          state = { count: 0, step: 1, user: { name: "" } };
+
           render() {
+            const { user: { name }, ...rest } = this.state;
+            return <div title={name}>{rest.count}</div>;
           }
         }
       `;
       const output = dedent`\
         const C = () => {
-          const [foo, setFoo] = React.useState();
-
-          const reset = () => {
-            setFoo(42);
+          const [count, setCount] = React.useState(0);
+          const [step, setStep] = React.useState(1);
+          const [user, setUser] = React.useState({ name: "" });
+          const { user: { name }, ...rest } = {
+            count,
+            step,
+            user
           };
+          return <div title={name}>{rest.count}</div>;
         };
       `;
       expect(transform(input)).toBe(output);
     });
-  });
 
-  describe("Ref transformation", () => {
-    it("transforms createRef as useRef", () => {
+    it("copies reassigned state aliases to fresh variables", () => {
       const input = dedent`\
         class C extends React.Component {
-          constructor(props) {
-            super(props);
-            this.div = React.createRef();
-          }
-
-          foo() {
-            console.log(this.div.current);
-          }
+          state = { items: [], filter: "" };
 
           render() {
-            return <div ref={this.div} />;
+            let { items, filter } = this.state;
+            if (filter) {
+              items = items.filter((item) => item.includes(filter));
+            }
+            return <ul>{items}</ul>;
           }
         }
       `;
       const output = dedent`\
         const C = () => {
-          function foo() {
-            console.log(div.current);
+          const [items, setItems] = React.useState([]);
+          const [filter, setFilter] = React.useState("");
+          let items0 = items;
+          if (filter) {
+            items0 = items0.filter((item) => item.includes(filter));
           }
-
-          const div = React.useRef(null);
-          return <div ref={div} />;
+          return <ul>{items0}</ul>;
         };
       `;
       expect(transform(input)).toBe(output);
     });
 
-    it("transforms typed createRef as useRef", () => {
+    it("transforms setState in constructor", () => {
       const input = dedent`\
         class C extends React.Component {
-          button: React.RefObject<HTMLButtonElement>
           constructor(props) {
             super(props);
-            this.div = React.createRef<HTMLDivElement>();
-            this.button = React.createRef();
-          }
-
-          foo() {
-            console.log(this.div.current);
+            this.reset = () => {
+              this.setState({ foo: 42 });
+            };
           }
-
           render() {
-            return <div ref={this.div} />;
           }
         }
       `;
       const output = dedent`\
-        const C: React.FC = () => {
-          const button = React.useRef<HTMLButtonElement>(null);
-
-          function foo() {
-            console.log(div.current);
-          }
+        const C = () => {
+          const [foo, setFoo] = React.useState();
 
-          const div = React.useRef<HTMLDivElement>(null);
-          return <div ref={div} />;
+          const reset = () => {
+            setFoo(42);
+          };
         };
       `;
-      expect(transform(input, { ts: true })).toBe(output);
+      expect(transform(input)).toBe(output);
     });
 
-    it("transforms class field as useRef", () => {
+    it("transforms functional updates", () => {
       const input = dedent`\
         class C extends React.Component {
-          constructor(props) {
-            super(props);
-            this.div = null;
+          state = { count: 0, open: false };
+          render() {
+            return (
+              <div>
+                <button onClick={() => this.setState((prev) => ({ count: prev.count + 1 }))} />
+                <button onClick={() => this.setState((prev, props) => ({ count: prev.count + props.step, open: !prev.open }))} />
+                <button onClick={() => this.setState(function ({ count }) { return { count: count * 2 }; })} />
+              </div>
+            );
           }
+        }
+      `;
+      const output = dedent`\
+        const C = props => {
+          const {
+            step
+          } = props;
 
-          foo() {
-            console.log(this.div);
-          }
+          const [count, setCount] = React.useState(0);
+          const [open, setOpen] = React.useState(false);
+          return (
+            <div>
+              <button onClick={() => setCount(count => count + 1)} />
+              <button onClick={() => (setCount(count => count + step), setOpen(open => !open))} />
+              <button onClick={() => setCount(count => count * 2)} />
+            </div>
+          );
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
 
+    it("adds props in functional updates to the dependencies of memoized handlers", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          state = { a: 0 };
+          increment = () => {
+            this.setState((prev, props) => ({ a: prev.a + props.step }));
+          };
           render() {
-            return <div ref={(elem) => this.div = elem} />;
+            return <Button onClick={this.increment}>{this.state.a}</Button>;
           }
         }
       `;
       const output = dedent`\
-        const C = () => {
-          function foo() {
-            console.log(div.current);
-          }
+        const C = props => {
+          const {
+            step
+          } = props;
 
-          const div = React.useRef(null);
-          return <div ref={(elem) => div.current = elem} />;
+          const [a, setA] = React.useState(0);
+
+          const increment = React.useCallback(() => {
+            setA(a => a + step);
+          }, [step]);
+
+          return <Button onClick={increment}>{a}</Button>;
         };
       `;
       expect(transform(input)).toBe(output);
     });
 
-    it("transforms class field without initializer as useRef", () => {
+    it("transforms setState callbacks to effects", () => {
       const input = dedent`\
         class C extends React.Component {
-          constructor(props) {
-            super(props);
-          }
-
-          foo() {
-            console.log(this.div);
+          state = { count: 0, open: false };
+          reset() {
+            this.setState({ count: 0, open: false }, () => this.props.onReset());
           }
-
           render() {
-            return <div ref={(elem) => this.div = elem} />;
+            return <button onClick={() => this.setState((prev) => ({ count: prev.count + 1 }), this.reset)} />;
           }
         }
       `;
       const output = dedent`\
-        const C = () => {
-          function foo() {
-            console.log(div.current);
+        const C = props => {
+          const {
+            onReset
+          } = props;
+
+          const [count, setCount] = React.useState(0);
+          const [open, setOpen] = React.useState(false);
+
+          function reset() {
+            setCount(0);
+            setOpen(false);
+            pendingCallbacks.current.push(0);
+            requestCallbacks();
           }
 
-          const div = React.useRef(undefined);
-          return <div ref={(elem) => div.current = elem} />;
+          const pendingCallbacks = React.useRef([]);
+          const [, requestCallbacks] = React.useReducer(x => x + 1, 0);
+
+          React.useEffect(() => {
+            const callbacks = [() => onReset(), reset];
+
+            for (const i of pendingCallbacks.current.splice(0)) {
+              callbacks[i]();
+            }
+          });
+
+          return <button onClick={() => (setCount(count => count + 1), pendingCallbacks.current.push(1), requestCallbacks())} />;
         };
       `;
       expect(transform(input)).toBe(output);
     });
 
-    it("transforms typed class field as useRef", () => {
+    it("runs setState callbacks even if the states are unchanged", () => {
       const input = dedent`\
-        class C extends React.Component {
-          div: HTMLDivElement | null;
-          constructor(props) {
-            super(props);
-            this.div = null;
-          }
-
-          foo() {
-            console.log(this.div);
+        type Props = { onSave(text: string): void };
+        type State = { text: string };
+        class C extends React.Component<Props, State> {
+          state = { text: "" };
+          save() {
+            this.setState({ text: this.state.text.trim() }, () => this.props.onSave(this.state.text));
           }
-
           render() {
-            return <div ref={(elem) => this.div = elem} />;
+            return <button onClick={() => this.save()}>{this.state.text}</button>;
           }
         }
       `;
       const output = dedent`\
-        const C: React.FC = () => {
-          const div = React.useRef<HTMLDivElement | null>(null);
+        type Props = { onSave(text: string): void };
+        type State = { text: string };
 
-          function foo() {
-            console.log(div.current);
+        const C: React.FC<Props> = props => {
+          const {
+            onSave
+          } = props;
+
+          const [text, setText] = React.useState<string>("");
+
+          function save() {
+            setText(text.trim());
+            pendingCallbacks.current.push(0);
+            requestCallbacks();
           }
 
-          return <div ref={(elem) => div.current = elem} />;
+          const pendingCallbacks = React.useRef<number[]>([]);
+          const [, requestCallbacks] = React.useReducer(x => x + 1, 0);
+
+          React.useEffect(() => {
+            const callbacks = [() => onSave(text)];
+
+            for (const i of pendingCallbacks.current.splice(0)) {
+              callbacks[i]();
+            }
+          });
+
+          return <button onClick={() => save()}>{text}</button>;
         };
       `;
       expect(transform(input, { ts: true })).toBe(output);
     });
 
-    it("transforms ref initializer", () => {
+    it("errors on setState callbacks referring to local variables", () => {
       const input = dedent`\
         class C extends React.Component {
-          counter = 42
-
-          foo() {
-            console.log(this.counter++);
+          state = { value: "" };
+          handleChange = (e) => {
+            this.setState({ value: e.target.value }, () => this.props.onChange(e));
+          };
+          handleClear() {
+            const value = "";
+            this.setState({ value });
           }
-
           render() {
-            return null;
+            return <input value={this.state.value} onChange={this.handleChange} />;
           }
         }
       `;
       const output = dedent`\
-        const C = () => {
-          const counter = React.useRef(42);
+        const C = props => {
+          const {
+            onChange
+          } = props;
 
-          function foo() {
-            console.log(counter.current++);
+          const [value, setValue] = React.useState("");
+
+          const handleChange = React.useCallback((e) => {
+            TODO_this.setState({ value: e.target.value }, () => onChange(e));
+          }, [onChange]);
+
+          function handleClear() {
+            const value = "";
+            setValue(value);
           }
 
-          return null;
+          return <input value={value} onChange={handleChange} />;
         };
       `;
       expect(transform(input)).toBe(output);
     });
-  });
-
-  it("transforms props", () => {
-    const input = dedent`\
-      class C extends React.Component {
-        render() {
-          return <div>Hello, {this.props.name}!</div>;
-        }
-      }
-    `;
-    const output = dedent`\
-      const C = props => {
-        return <div>Hello, {props.name}!</div>;
-      };
-    `;
-    expect(transform(input)).toBe(output);
-  });
 
-  describe("constructor support", () => {
-    it("transforms state in constructor", () => {
+    it("errors on this in non-arrow setState callbacks", () => {
       const input = dedent`\
         class C extends React.Component {
-          constructor(props) {
-            super(props);
-            this.state = {
-              foo: 1,
-              bar: 2,
-            };
+          state = { open: false };
+          toggle() {
+            this.setState({ open: !this.state.open }, function () {
+              this.notify();
+            });
+          }
+          notify() {
+            log("toggled");
           }
           render() {
-            return <button onClick={() => this.setState({ bar: 3 })}>{this.state.foo}</button>;
+            return <button onClick={() => this.toggle()} />;
           }
         }
       `;
       const output = dedent`\
         const C = () => {
-          const [foo, setFoo] = React.useState(1);
-          const [bar, setBar] = React.useState(2);
-          return <button onClick={() => setBar(3)}>{foo}</button>;
+          const [open, setOpen] = React.useState(false);
+
+          function toggle() {
+            setOpen(!open);
+            pendingCallbacks.current.push(0);
+            requestCallbacks();
+          }
+
+          function notify() {
+            log("toggled");
+          }
+
+          const pendingCallbacks = React.useRef([]);
+          const [, requestCallbacks] = React.useReducer(x => x + 1, 0);
+
+          React.useEffect(() => {
+            const callbacks = [function () {
+              TODO_this.notify();
+            }];
+
+            for (const i of pendingCallbacks.current.splice(0)) {
+              callbacks[i]();
+            }
+          });
+
+          return <button onClick={() => toggle()} />;
         };
       `;
       expect(transform(input)).toBe(output);
     });
-  });
 
-  describe("Memoization", () => {
-    it("transforms PureComponent to React.memo", () => {
+    it("initializes states lazily if necessary", () => {
       const input = dedent`\
-        class C extends React.PureComponent {
+        class C extends React.Component {
+          state = { items: computeItems(this.props.source), count: this.props.initialCount, filter: "", tags: [] };
           render() {
-            return <div>Hello, world!</div>;
+            return null;
           }
         }
       `;
       const output = dedent`\
-        const C = React.memo(function C() {
-          return <div>Hello, world!</div>;
-        });
+        const C = props => {
+          const [items, setItems] = React.useState(() => computeItems(props.source));
+          const [count, setCount] = React.useState(props.initialCount);
+          const [filter, setFilter] = React.useState("");
+          const [tags, setTags] = React.useState([]);
+          return null;
+        };
       `;
       expect(transform(input)).toBe(output);
     });
 
-    it("Places types on const", () => {
+    it("initializes states lazily when forced", () => {
       const input = dedent`\
-        class C extends React.PureComponent {
+        class C extends React.Component {
+          state = { items: computeItems(this.props.source), count: this.props.initialCount, filter: "", tags: [] };
           render() {
-            return <div>Hello, world!</div>;
+            return null;
           }
         }
       `;
       const output = dedent`\
-        const C: React.FC = React.memo(function C() {
-          return <div>Hello, world!</div>;
-        });
+        const C = props => {
+          const [items, setItems] = React.useState(() => computeItems(props.source));
+          const [count, setCount] = React.useState(() => props.initialCount);
+          const [filter, setFilter] = React.useState("");
+          const [tags, setTags] = React.useState(() => []);
+          return null;
+        };
       `;
-      expect(transform(input, { ts: true })).toBe(output);
+      expect(
+        transform(input, { pluginOptions: { forceLazyStateInit: true } })
+      ).toBe(output);
     });
-  });
 
-  describe("Effects", () => {
-    it("transforms raw effects", () => {
+    it("omits undefined initial states even when lazy initialization is forced", () => {
       const input = dedent`\
-        class C extends React.Component {
-          componentDidMount() {
-            console.log("mounted");
-          }
-          componentDidUpdate() {
-            console.log("updated");
-          }
-          componentWillUnmount() {
-            console.log("unmounting");
+        type Props = {};
+        type State = { selected: string | undefined; count: number };
+        class C extends React.Component<Props, State> {
+          state = { selected: undefined, count: 0 };
+          render() {
+            return <div>{this.state.selected}{this.state.count}</div>;
           }
+        }
+      `;
+      const output = dedent`\
+        type Props = {};
+        type State = { selected: string | undefined; count: number };
+
+        const C: React.FC<Props> = () => {
+          const [selected, setSelected] = React.useState<string | undefined>();
+          const [count, setCount] = React.useState<number>(0);
+          return <div>{selected}{count}</div>;
+        };
+      `;
+      expect(
+        transform(input, {
+          ts: true,
+          pluginOptions: { forceLazyStateInit: true },
+        })
+      ).toBe(output);
+    });
+
+    it("initializes states lazily if an object literal has side effects in its values", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          state = { config: { url: getUrl() }, options: { verbose: true, label: "x" } };
           render() {
             return null;
           }
@@ -1289,22 +2086,1839 @@ describe("react-declassify", () => {
       `;
       const output = dedent`\
         const C = () => {
-          const isMounted = React.useRef(false);
+          const [config, setConfig] = React.useState(() => ({
+            url: getUrl()
+          }));
 
-          // TODO(react-declassify): refactor this effect (automatically generated from lifecycle)
-          React.useEffect(() => {
-            if (!isMounted.current) {
-              isMounted.current = true;
-              console.log("mounted");
-            } else {
-              console.log("updated");
-            }
-          });
+          const [options, setOptions] = React.useState({ verbose: true, label: "x" });
+          return null;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("holds the state as a whole if setState is non-analyzable", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          state = { name: "", email: "" };
+          onChange = (e) => {
+            this.setState({ [e.target.name]: e.target.value });
+          };
+          reset() {
+            this.setState((prev) => ({ ...prev, name: "" }));
+          }
+          render() {
+            return (
+              <form>
+                <input name="name" value={this.state.name} onChange={this.onChange} />
+                <Debug state={this.state} onReset={() => this.reset()} />
+              </form>
+            );
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = () => {
+          const [state, replaceState] = React.useState({ name: "", email: "" });
+
+          const setState = React.useCallback(patch => replaceState(prev => ({
+            ...prev,
+            ...(typeof patch === "function" ? patch(prev) : patch)
+          })), []);
+
+          const onChange = React.useCallback((e) => {
+            setState({ [e.target.name]: e.target.value });
+          }, []);
+
+          function reset() {
+            setState((prev) => ({ ...prev, name: "" }));
+          }
+
+          return (
+            <form>
+              <input name="name" value={state.name} onChange={onChange} />
+              <Debug state={state} onReset={() => reset()} />
+            </form>
+          );
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("holds the state as a whole in TypeScript", () => {
+      const input = dedent`\
+        type Props = {};
+        type State = { name: string; email: string };
+        class C extends React.Component<Props, State> {
+          state = { ...initialState };
+          onChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+            this.setState({ [e.target.name]: e.target.value } as Pick<State, "name">);
+          };
+          render() {
+            const { name } = this.state;
+            return <input name="name" value={name} onChange={this.onChange} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        type Props = {};
+        type State = { name: string; email: string };
+
+        const C: React.FC<Props> = () => {
+          const [state, replaceState] = React.useState<State>({ ...initialState });
+
+          const setState = React.useCallback(
+            (patch: Partial<State> | ((prev: State) => Partial<State>)) => replaceState(prev => ({
+              ...prev,
+              ...(typeof patch === "function" ? patch(prev) : patch)
+            })),
+            []
+          );
+
+          const onChange = React.useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+            setState({ [e.target.name]: e.target.value } as Pick<State, "name">);
+          }, []);
+
+          const { name } = state;
+          return <input name="name" value={name} onChange={onChange} />;
+        };
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("transforms forceUpdate to useReducer", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          items = [];
+          add(item) {
+            this.items.push(item);
+            this.forceUpdate();
+          }
+          render() {
+            return <List items={this.items} onAdd={(item) => this.add(item)} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = () => {
+          const [, forceUpdate] = React.useReducer(x => x + 1, 0);
+          const items = React.useRef([]);
+
+          function add(item) {
+            items.current.push(item);
+            forceUpdate();
+          }
+
+          return <List items={items.current} onAdd={(item) => add(item)} />;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+  });
+
+  describe("Ref transformation", () => {
+    it("transforms createRef as useRef", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          constructor(props) {
+            super(props);
+            this.div = React.createRef();
+          }
+
+          foo() {
+            console.log(this.div.current);
+          }
+
+          render() {
+            return <div ref={this.div} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = () => {
+          function foo() {
+            console.log(div.current);
+          }
+
+          const div = React.useRef(null);
+          return <div ref={div} />;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("transforms typed createRef as useRef", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          button: React.RefObject<HTMLButtonElement>
+          constructor(props) {
+            super(props);
+            this.div = React.createRef<HTMLDivElement>();
+            this.button = React.createRef();
+          }
+
+          foo() {
+            console.log(this.div.current);
+          }
+
+          render() {
+            return <div ref={this.div} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C: React.FC = () => {
+          const button = React.useRef<HTMLButtonElement>(null);
+
+          function foo() {
+            console.log(div.current);
+          }
+
+          const div = React.useRef<HTMLDivElement>(null);
+          return <div ref={div} />;
+        };
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("transforms class field as useRef", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          constructor(props) {
+            super(props);
+            this.div = null;
+          }
+
+          foo() {
+            console.log(this.div);
+          }
+
+          render() {
+            return <div ref={(elem) => this.div = elem} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = () => {
+          function foo() {
+            console.log(div.current);
+          }
+
+          const div = React.useRef(null);
+          return <div ref={div} />;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("transforms class field without initializer as useRef", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          constructor(props) {
+            super(props);
+          }
+
+          foo() {
+            console.log(this.div);
+          }
+
+          render() {
+            return <div ref={(elem) => this.div = elem} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = () => {
+          function foo() {
+            console.log(div.current);
+          }
+
+          const div = React.useRef(null);
+          return <div ref={div} />;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("transforms typed class field as useRef", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          div: HTMLDivElement | null;
+          constructor(props) {
+            super(props);
+            this.div = null;
+          }
+
+          foo() {
+            console.log(this.div);
+          }
+
+          render() {
+            return <div ref={(elem) => this.div = elem} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C: React.FC = () => {
+          const div = React.useRef<HTMLDivElement>(null);
+
+          function foo() {
+            console.log(div.current);
+          }
+
+          return <div ref={div} />;
+        };
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("transforms ref initializer", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          counter = 42
+
+          foo() {
+            console.log(this.counter++);
+          }
+
+          render() {
+            return null;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = () => {
+          const counter = React.useRef(42);
+
+          function foo() {
+            console.log(counter.current++);
+          }
+
+          return null;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("initializes refs lazily if necessary", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          store = new Store();
+          socket = createSocket(this.props.url);
+          count = 0;
+          render() {
+            return <div onClick={() => this.store.dispatch(this.socket)}>{this.count}</div>;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = props => {
+          const store = React.useRef(null);
+          const storeInitialized = React.useRef(false);
+
+          if (!storeInitialized.current) {
+            store.current = new Store();
+            storeInitialized.current = true;
+          }
+
+          const socket = React.useRef(null);
+          const socketInitialized = React.useRef(false);
+
+          if (!socketInitialized.current) {
+            socket.current = createSocket(props.url);
+            socketInitialized.current = true;
+          }
+
+          const count = React.useRef(0);
+          return <div onClick={() => store.current.dispatch(socket.current)}>{count.current}</div>;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("initializes refs lazily via useState in TypeScript", () => {
+      const input = dedent`\
+        type Props = { url: string };
+        class C extends React.Component<Props> {
+          store: Store = new Store();
+          socket = createSocket(this.props.url);
+          render() {
+            return <div onClick={() => this.store.dispatch(this.socket)} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        type Props = { url: string };
+
+        const C: React.FC<Props> = props => {
+          const store = React.useRef<Store>(React.useState(() => new Store())[0]);
+          const socket = React.useRef(React.useState(() => createSocket(props.url))[0]);
+          return <div onClick={() => store.current.dispatch(socket.current)} />;
+        };
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("initializes refs lazily via useState if requested", () => {
+      const input = dedent`\
+        type Props = { url: string };
+        class C extends React.Component<Props> {
+          store: Store = new Store();
+          socket = createSocket(this.props.url);
+          render() {
+            return <div onClick={() => this.store.dispatch(this.socket)} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        type Props = { url: string };
+
+        const C: React.FC<Props> = props => {
+          const store = React.useRef<Store>(React.useState(() => new Store())[0]);
+          const socket = React.useRef(React.useState(() => createSocket(props.url))[0]);
+          return <div onClick={() => store.current.dispatch(socket.current)} />;
+        };
+      `;
+      expect(
+        transform(input, { ts: true, pluginOptions: { lazyRefInit: "state" } })
+      ).toBe(output);
+    });
+
+    it("transforms string refs", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          focus() {
+            this.refs.input.focus();
+            const { list } = this.refs;
+            list.scrollTo(0);
+          }
+          render() {
+            return (
+              <div>
+                <input ref="input" />
+                <List ref="list" />
+              </div>
+            );
+          }
+        }
+      `;
+      const output = dedent`\
+        const C: React.FC = () => {
+          const input = React.useRef<HTMLInputElement>(null);
+          const list = React.useRef<React.ElementRef<typeof List>>(null);
+
+          function focus() {
+            input.current.focus();
+            list.current.scrollTo(0);
+          }
+
+          return (
+            <div>
+              <input ref={input} />
+              <List ref={list} />
+            </div>
+          );
+        };
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("produces soft errors for string refs not found", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          componentDidMount() {
+            this.refs.input.focus();
+            this.refs.other.focus();
+          }
+          render() {
+            return <input ref="input" />;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = () => {
+          const input = React.useRef(null);
+          const isMounted = React.useRef(false);
+
+          // TODO(react-declassify): refactor this effect (automatically generated from lifecycle)
+          React.useEffect(() => {
+            if (!isMounted.current) {
+              isMounted.current = true;
+              input.current.focus();
+              TODO_this.refs.other.focus();
+            }
+          });
+
+          return <input ref={input} />;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("transforms callback refs", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          container: HTMLDivElement | null = null;
+          input?: HTMLInputElement | null;
+          list: List | null = null;
+          setList = (list: List | null) => {
+            this.list = list;
+          };
+          log: HTMLElement | null = null;
+          setLog(el: HTMLElement | null) {
+            this.log = el;
+            track(el);
+          }
+          componentDidMount() {
+            this.container?.focus();
+            this.input?.select();
+            this.list?.scrollTo(0);
+          }
+          render() {
+            return (
+              <div ref={(el) => this.container = el}>
+                <input ref={(el) => { this.input = el; }} />
+                <List ref={this.setList} />
+                <pre ref={(el) => this.setLog(el)} />
+              </div>
+            );
+          }
+        }
+      `;
+      const output = dedent`\
+        const C: React.FC = () => {
+          const container = React.useRef<HTMLDivElement>(null);
+          const input = React.useRef<HTMLInputElement>(null);
+          const list = React.useRef<React.ElementRef<typeof List>>(null);
+          const log = React.useRef<HTMLElement | null>(null);
+
+          function setLog(el: HTMLElement | null) {
+            log.current = el;
+            track(el);
+          }
+
+          const isMounted = React.useRef(false);
+
+          // TODO(react-declassify): refactor this effect (automatically generated from lifecycle)
+          React.useEffect(() => {
+            if (!isMounted.current) {
+              isMounted.current = true;
+              container.current?.focus();
+              input.current?.select();
+              list.current?.scrollTo(0);
+            }
+          });
+
+          return (
+            <div ref={container}>
+              <input ref={input} />
+              <List ref={list} />
+              <pre ref={(el) => setLog(el)} />
+            </div>
+          );
+        };
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("exposes methods via forwardRef and useImperativeHandle", () => {
+      const input = dedent`\
+        type Props = {
+          label: string;
+        };
+
+        /* react-declassify-expose: focus, reset */
+        export class C extends React.Component<Props> {
+          input: HTMLInputElement | null = null;
+          focus() {
+            this.input?.focus();
+          }
+          reset = (value: string = "") => {
+            if (this.input) {
+              this.input.value = value || this.props.label;
+            }
+          };
+          render() {
+            return <input ref={(el) => this.input = el} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        type Props = {
+          label: string;
+        };
+
+        export type CHandle = {
+          focus: () => void,
+          reset: (value?: string) => void
+        };
+
+        /* react-declassify-expose: focus, reset */
+        export const C = React.forwardRef<CHandle, Props>((props, ref) => {
+          const input = React.useRef<HTMLInputElement>(null);
+
+          const focus = React.useCallback(function focus() {
+            input.current?.focus();
+          }, []);
+
+          const reset = React.useCallback((value: string = "") => {
+            if (input.current) {
+              input.current.value = value || props.label;
+            }
+          }, [props.label]);
+
+          React.useImperativeHandle(ref, () => ({
+            focus,
+            reset
+          }), [focus, reset]);
+
+          return <input ref={input} />;
+        });
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("exposes methods of pure components", () => {
+      const input = dedent`\
+        // react-declassify-expose: focus
+        class C extends React.PureComponent {
+          focus() {
+            this.input.focus();
+          }
+          render() {
+            return <input ref={(el) => this.input = el} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = React.memo(React.forwardRef(function C(_props, ref) {
+          const focus = React.useCallback(function focus() {
+            input.current.focus();
+          }, []);
+
+          const input = React.useRef(null);
+
+          React.useImperativeHandle(ref, () => ({
+            focus
+          }), [focus]);
+
+          return <input ref={input} />;
+        }));
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("types unannotated parameters of exposed methods as unknown", () => {
+      const input = dedent`\
+        /* react-declassify-expose: scrollTo, select */
+        class C extends React.Component {
+          list: HTMLUListElement | null = null;
+          scrollTo({ top }, smooth = false, ...rest) {
+            this.list?.scrollTo({ top, behavior: smooth ? "smooth" : "auto" });
+          }
+          select(index, offset: number = index) {
+            return this.list?.children[index + offset];
+          }
+          render() {
+            return <ul ref={(el) => this.list = el} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        type CHandle = {
+          scrollTo: (__0: unknown, smooth?: boolean, ...rest: unknown[]) => void,
+          select: (index: unknown, offset?: number) => unknown
+        };
+
+        const C = React.forwardRef<CHandle>((_props, ref) => {
+          const list = React.useRef<HTMLUListElement>(null);
+
+          const scrollTo = React.useCallback(function scrollTo({ top }, smooth = false, ...rest) {
+            list.current?.scrollTo({ top, behavior: smooth ? "smooth" : "auto" });
+          }, []);
+
+          const select = React.useCallback(function select(index, offset: number = index) {
+            return list.current?.children[index + offset];
+          }, []);
+
+          React.useImperativeHandle(ref, () => ({
+            scrollTo,
+            select
+          }), [scrollTo, select]);
+
+          return <ul ref={list} />;
+        });
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("errors on exposing non-methods", () => {
+      const input = dedent`\
+        /* react-declassify-expose: input */
+        class C extends React.Component {
+          render() {
+            return <input ref={(el) => this.input = el} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        /* react-declassify-disable Cannot perform transformation: Cannot expose input */
+        /* react-declassify-expose: input */
+        class C extends React.Component {
+          render() {
+            return <input ref={(el) => this.input = el} />;
+          }
+        }
+      `;
+      expect(transform(input)).toBe(output);
+    });
+  });
+
+  describe("Context transformation", () => {
+    it("transforms contextType to useContext", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          static contextType = ThemeContext;
+
+          render() {
+            const { color } = this.context;
+            return <div style={{ color }} onClick={this.onClick} />;
+          }
+
+          onClick = () => {
+            console.log(this.context.name);
+          };
+        }
+      `;
+      const output = dedent`\
+        const C = () => {
+          const context = React.useContext(ThemeContext);
+
+          const onClick = React.useCallback(() => {
+            console.log(context.name);
+          }, [context]);
+
+          const { color } = context;
+          return <div style={{ color }} onClick={onClick} />;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("transforms context types", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          static contextType = ThemeContext;
+          declare context: React.ContextType<typeof ThemeContext>;
+
+          render() {
+            return <div>{this.context.name}</div>;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C: React.FC = () => {
+          const context: React.ContextType<typeof ThemeContext> = React.useContext(ThemeContext);
+          return <div>{context.name}</div>;
+        };
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("renames context if necessary", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          static contextType = ThemeContext;
+
+          render() {
+            const context = 42;
+            return <div>{this.context.name}{context}</div>;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = () => {
+          const context0 = React.useContext(ThemeContext);
+          const context = 42;
+          return <div>{context0.name}{context}</div>;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("produces soft errors for this.context without contextType", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          render() {
+            return <div>{this.context.name}</div>;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = () => {
+          return <div>{TODO_this.context.name}</div>;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+    describe("legacy contexts", () => {
+      const legacyContexts = {
+        router: { source: "~/contexts", name: "RouterContext" },
+        theme: { source: "~/contexts", name: "ThemeContext" },
+      };
+
+      it("transforms contextTypes to useContext", () => {
+        const input = dedent`\
+          import React from "react";
+          class C extends React.Component {
+            static contextTypes = {
+              router: PropTypes.object,
+              theme: PropTypes.object,
+            };
+
+            render() {
+              const { theme } = this.context;
+              return <div style={theme.style}>{this.context.router.path}</div>;
+            }
+          }
+        `;
+        const output = dedent`\
+          import React from "react";
+          import { ThemeContext, RouterContext } from "~/contexts";
+
+          const C = () => {
+            const theme = React.useContext(ThemeContext);
+            const router = React.useContext(RouterContext);
+            return <div style={theme.style}>{router.path}</div>;
+          };
+        `;
+        expect(transform(input, { pluginOptions: { legacyContexts } })).toBe(
+          output
+        );
+      });
+
+      it("transforms getChildContext to providers", () => {
+        const input = dedent`\
+          import React from "react";
+          import { RouterContext } from "~/contexts";
+          class C extends React.Component {
+            static childContextTypes = {
+              router: PropTypes.object,
+            };
+
+            getChildContext() {
+              return { router: this.props.router };
+            }
+
+            render() {
+              return <div>{this.props.children}</div>;
+            }
+          }
+        `;
+        const output = dedent`\
+          import React from "react";
+          import { RouterContext } from "~/contexts";
+
+          const C = props => {
+            return <RouterContext.Provider value={props.router}><div>{props.children}</div></RouterContext.Provider>;
+          };
+        `;
+        expect(transform(input, { pluginOptions: { legacyContexts } })).toBe(
+          output
+        );
+      });
+
+      it("produces soft errors for unmapped keys", () => {
+        const input = dedent`\
+          class C extends React.Component {
+            static contextTypes = {
+              router: PropTypes.object,
+              store: PropTypes.object,
+            };
+
+            render() {
+              return <div>{this.context.router.path}{this.context.store.name}</div>;
+            }
+          }
+        `;
+        const output = dedent`\
+          import { RouterContext } from "~/contexts";
+
+          const C = () => {
+            const router = React.useContext(RouterContext);
+            return <div>{router.path}{TODO_this.context.store.name}</div>;
+          };
+        `;
+        expect(transform(input, { pluginOptions: { legacyContexts } })).toBe(
+          output
+        );
+      });
+
+      it("produces soft errors for unmapped providers", () => {
+        const input = dedent`\
+          class C extends React.Component {
+            static childContextTypes = {
+              store: PropTypes.object,
+            };
+
+            getChildContext() {
+              return { store: this.props.store };
+            }
+
+            render() {
+              return null;
+            }
+          }
+        `;
+        const output = dedent`\
+          const C = props => {
+            TODO_this.getChildContext = function() {
+              return { store: props.store };
+            };
+
+            return null;
+          };
+        `;
+        expect(transform(input)).toBe(output);
+      });
+    });
+  });
+
+  it("transforms props", () => {
+    const input = dedent`\
+      class C extends React.Component {
+        render() {
+          return <div>Hello, {this.props.name}!</div>;
+        }
+      }
+    `;
+    const output = dedent`\
+      const C = props => {
+        return <div>Hello, {props.name}!</div>;
+      };
+    `;
+    expect(transform(input)).toBe(output);
+  });
+
+  describe("constructor support", () => {
+    it("transforms state in constructor", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          constructor(props) {
+            super(props);
+            this.state = {
+              foo: 1,
+              bar: 2,
+            };
+          }
+          render() {
+            return <button onClick={() => this.setState({ bar: 3 })}>{this.state.foo}</button>;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = () => {
+          const [foo, setFoo] = React.useState(1);
+          const [bar, setBar] = React.useState(2);
+          return <button onClick={() => setBar(3)}>{foo}</button>;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+  });
+
+  describe("Memoization", () => {
+    it("transforms PureComponent to React.memo", () => {
+      const input = dedent`\
+        class C extends React.PureComponent {
+          render() {
+            return <div>Hello, world!</div>;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = React.memo(function C() {
+          return <div>Hello, world!</div>;
+        });
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("Places types on const", () => {
+      const input = dedent`\
+        class C extends React.PureComponent {
+          render() {
+            return <div>Hello, world!</div>;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C: React.FC = React.memo(function C() {
+          return <div>Hello, world!</div>;
+        });
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+  });
+
+  describe("shouldComponentUpdate", () => {
+    it("transforms shouldComponentUpdate to a comparator", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          shouldComponentUpdate(nextProps) {
+            return nextProps.id !== this.props.id;
+          }
+
+          render() {
+            return <div>{this.props.id}</div>;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = React.memo(function C(props) {
+          return <div>{props.id}</div>;
+        }, (prevProps, nextProps) => !(nextProps.id !== prevProps.id));
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("negates every return in shouldComponentUpdate", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          shouldComponentUpdate(nextProps) {
+            const { id } = this.props;
+            if (nextProps.id === id) {
+              return false;
+            }
+            return true;
+          }
+
+          render() {
+            return null;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = React.memo(function C() {
+          return null;
+        }, (prevProps, nextProps) => {
+          const { id } = prevProps;
+          if (nextProps.id === id) {
+            return true;
+          }
+          return false;
+        });
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("produces soft errors if shouldComponentUpdate reads nextState", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          shouldComponentUpdate(nextProps, nextState) {
+            return nextState.count !== this.state.count;
+          }
+
+          render() {
+            return null;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = () => {
+          const [count, setCount] = React.useState();
+
+          // TODO(react-declassify): shouldComponentUpdate reads nextState, which cannot be expressed in React.memo
+          TODO_this.shouldComponentUpdate = function(nextProps, nextState) {
+            return nextState.count !== count;
+          };
+
+          return null;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+  });
+
+  describe("getDerivedStateFromProps", () => {
+    it("transforms getDerivedStateFromProps to state adjustment during rendering", () => {
+      const input = dedent`\
+        type Props = { value: number };
+        type State = { value: number; prevValue: number };
+
+        export class C extends React.Component<Props, State> {
+          state = { value: 0, prevValue: 0 };
+
+          static getDerivedStateFromProps(props: Props, state: State): Partial<State> | null {
+            if (props.value !== state.prevValue) {
+              return { value: props.value, prevValue: props.value };
+            }
+            return null;
+          }
+
+          render() {
+            return <div>{this.state.value}</div>;
+          }
+        }
+      `;
+      const output = dedent`\
+        type Props = { value: number };
+        type State = { value: number; prevValue: number };
+
+        function getDerivedStateFromProps(props: Props, state: State): Partial<State> | null {
+          if (props.value !== state.prevValue) {
+            return { value: props.value, prevValue: props.value };
+          }
+          return null;
+        }
+
+        export const C: React.FC<Props> = props => {
+          const [value, setValue] = React.useState<number>(0);
+          const [prevValue, setPrevValue] = React.useState<number>(0);
+          const prevProps = React.useRef<typeof props | null>(null);
+
+          if (prevProps.current !== props) {
+            prevProps.current = props;
+
+            const derivedState = getDerivedStateFromProps(props, {
+              value,
+              prevValue
+            });
+
+            if (derivedState != null) {
+              if ("value" in derivedState && derivedState.value !== value) {
+                setValue(derivedState.value);
+              }
+
+              if ("prevValue" in derivedState && derivedState.prevValue !== prevValue) {
+                setPrevValue(derivedState.prevValue);
+              }
+            }
+          }
+
+          return <div>{value}</div>;
+        };
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("avoids name conflicts between hoisted functions", () => {
+      const input = dedent`\
+        class A extends React.Component {
+          static getDerivedStateFromProps(props) {
+            return { doubled: props.n * 2 };
+          }
+          render() {
+            return <div>{this.state.doubled}</div>;
+          }
+        }
+        class B extends React.Component {
+          static getDerivedStateFromProps = (props) => ({ tripled: props.n * 3 });
+          render() {
+            return <div>{this.state.tripled}</div>;
+          }
+        }
+      `;
+      const output = dedent`\
+        function getDerivedStateFromProps(props) {
+          return { doubled: props.n * 2 };
+        }
+
+        const A = props => {
+          const [doubled, setDoubled] = React.useState();
+          const prevProps = React.useRef(null);
+
+          if (prevProps.current !== props) {
+            prevProps.current = props;
+
+            const derivedState = getDerivedStateFromProps(props, {
+              doubled
+            });
+
+            if (derivedState != null) {
+              if ("doubled" in derivedState && derivedState.doubled !== doubled) {
+                setDoubled(derivedState.doubled);
+              }
+            }
+          }
+
+          return <div>{doubled}</div>;
+        };
+
+        function _getDerivedStateFromProps(props) {
+          return { tripled: props.n * 3 };
+        }
+
+        const B = props => {
+          const [tripled, setTripled] = React.useState();
+          const prevProps = React.useRef(null);
+
+          if (prevProps.current !== props) {
+            prevProps.current = props;
+
+            const derivedState = _getDerivedStateFromProps(props, {
+              tripled
+            });
+
+            if (derivedState != null) {
+              if ("tripled" in derivedState && derivedState.tripled !== tripled) {
+                setTripled(derivedState.tripled);
+              }
+            }
+          }
+
+          return <div>{tripled}</div>;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("calls getDerivedStateFromProps only when the props change", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          static defaultProps = { items: [] };
+          static getDerivedStateFromProps(props) {
+            return { visible: props.items.filter((item) => item.visible) };
+          }
+          render() {
+            return <List items={this.state.visible} size={this.props.size} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        const defaultProps = { items: [] };
+
+        function getDerivedStateFromProps(props) {
+          return { visible: props.items.filter((item) => item.visible) };
+        }
+
+        const C = rawProps => {
+          const props = {
+            ...defaultProps,
+            ...rawProps
+          };
+
+          const {
+            size
+          } = props;
+
+          const [visible, setVisible] = React.useState();
+          const prevProps = React.useRef(null);
+
+          if (prevProps.current !== rawProps) {
+            prevProps.current = rawProps;
+
+            const derivedState = getDerivedStateFromProps(props, {
+              visible
+            });
+
+            if (derivedState != null) {
+              if ("visible" in derivedState && derivedState.visible !== visible) {
+                setVisible(derivedState.visible);
+              }
+            }
+          }
+
+          return <List items={visible} size={size} />;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("errors on non-analyzable state updates in getDerivedStateFromProps", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          static getDerivedStateFromProps(props, state) {
+            return { ...state, value: props.value };
+          }
+          render() {
+            return <div>{this.state.value}</div>;
+          }
+        }
+      `;
+      const output = dedent`\
+        /* react-declassify-disable Cannot perform transformation: Non-analyzable state update in getDerivedStateFromProps */
+        class C extends React.Component {
+          static getDerivedStateFromProps(props, state) {
+            return { ...state, value: props.value };
+          }
+          render() {
+            return <div>{this.state.value}</div>;
+          }
+        }
+      `;
+      expect(transform(input)).toBe(output);
+    });
+  });
+
+  describe("Error boundaries", () => {
+    it("splits error boundaries", () => {
+      const input = dedent`\
+        /** A widget */
+        export class Widget extends React.Component {
+          state = { hasError: false, count: 0 };
+
+          static getDerivedStateFromError() {
+            return { hasError: true };
+          }
+
+          componentDidCatch(error, info) {
+            logError(error, info, this.props.label);
+          }
+
+          render() {
+            if (this.state.hasError) {
+              return <p>Something went wrong in {this.props.label}</p>;
+            }
+            return (
+              <button onClick={() => this.setState({ count: this.state.count + 1 })}>
+                {this.props.label}: {this.state.count}
+              </button>
+            );
+          }
+        }
+      `;
+      const output = dedent`\
+        const WidgetContent = props => {
+          const [count, setCount] = React.useState(0);
+          return (
+            <button onClick={() => setCount(count + 1)}>
+              {props.label}: {count}
+            </button>
+          );
+        };
+
+        /** A widget */
+        export class Widget extends React.Component {
+          state = {
+            hasError: false
+          };
+
+          static getDerivedStateFromError() {
+            return { hasError: true };
+          }
+
+          componentDidCatch(error, info) {
+            logError(error, info, this.props.label);
+          }
+
+          render() {
+            if (this.state.hasError) {
+              return <p>Something went wrong in {this.props.label}</p>;
+            }
+            return <WidgetContent {...this.props} />;
+          }
+        }
+      `;
+      expect(
+        transform(input, { pluginOptions: { splitErrorBoundaries: true } })
+      ).toBe(output);
+    });
+
+    it("splits error boundaries in TypeScript", () => {
+      const input = dedent`\
+        type Props = { children?: React.ReactNode };
+        type State = { error: Error | null; open: boolean };
+
+        export default class Boundary extends React.Component<Props, State> {
+          state = { error: null, open: false };
+
+          static getDerivedStateFromError(error: Error) {
+            return { error };
+          }
+
+          render() {
+            if (this.state.error) return <pre>{this.state.error.message}</pre>;
+            return (
+              <details open={this.state.open} onToggle={() => this.setState({ open: !this.state.open })}>
+                {this.props.children}
+              </details>
+            );
+          }
+        }
+      `;
+      const output = dedent`\
+        type Props = { children?: React.ReactNode };
+        type State = { error: Error | null; open: boolean };
+
+        const BoundaryContent: React.FC<Props> = props => {
+          const [open, setOpen] = React.useState<boolean>(false);
+          return (
+            <details open={open} onToggle={() => setOpen(!open)}>
+              {props.children}
+            </details>
+          );
+        };
+
+        export default class Boundary extends React.Component<Props, Pick<State, "error">> {
+          state = {
+            error: null
+          };
+
+          static getDerivedStateFromError(error: Error) {
+            return { error };
+          }
+
+          render() {
+            if (this.state.error) return <pre>{this.state.error.message}</pre>;
+            return <BoundaryContent {...this.props} />;
+          }
+        }
+      `;
+      expect(
+        transform(input, {
+          ts: true,
+          pluginOptions: { splitErrorBoundaries: true },
+        })
+      ).toBe(output);
+    });
+
+    it("errors if the boundary state is used outside the fallback", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          state = { hasError: false };
+          static getDerivedStateFromError() {
+            return { hasError: true };
+          }
+          render() {
+            return <div className={this.state.hasError ? "error" : ""} />;
+          }
+        }
+      `;
+      const output = dedent`\
+        /* react-declassify-disable Cannot perform transformation: Error boundary state hasError is used outside the fallback */
+        class C extends React.Component {
+          state = { hasError: false };
+          static getDerivedStateFromError() {
+            return { hasError: true };
+          }
+          render() {
+            return <div className={this.state.hasError ? "error" : ""} />;
+          }
+        }
+      `;
+      expect(
+        transform(input, { pluginOptions: { splitErrorBoundaries: true } })
+      ).toBe(output);
+    });
+  });
+
+  describe("Effects", () => {
+    it("transforms raw effects", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          componentDidMount() {
+            console.log("mounted");
+          }
+          componentDidUpdate() {
+            console.log("updated");
+          }
+          componentWillUnmount() {
+            console.log("unmounting");
+          }
+          render() {
+            return null;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = () => {
+          const isMounted = React.useRef(false);
+
+          // TODO(react-declassify): refactor this effect (automatically generated from lifecycle)
+          React.useEffect(() => {
+            if (!isMounted.current) {
+              isMounted.current = true;
+              console.log("mounted");
+            } else {
+              console.log("updated");
+            }
+          });
+
+          const cleanup = React.useRef(null);
+
+          cleanup.current = () => {
+            console.log("unmounting");
+          };
+
+          // TODO(react-declassify): refactor this effect (automatically generated from lifecycle)
+          React.useEffect(() => {
+            return () => {
+              if (isMounted.current) {
+                isMounted.current = false;
+                cleanup.current?.();
+              }
+            };
+          }, []);
+
+          return null;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("transforms componentDidUpdate parameters", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          state = { count: 0 };
+          componentDidUpdate(prevProps, prevState) {
+            const { user } = prevProps;
+            if (user !== this.props.user || prevProps.id !== this.props.id) {
+              fetchUser(this.props.user);
+            }
+            if (prevState.count !== this.state.count) {
+              log(this.state.count);
+            }
+          }
+          render() {
+            return null;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = props => {
+          const {
+            user,
+            id
+          } = props;
+
+          const [count, setCount] = React.useState(0);
+          const prevUser = React.useRef(user);
+          const prevId = React.useRef(id);
+          const prevCount = React.useRef(count);
+          const isMounted = React.useRef(false);
+
+          // TODO(react-declassify): refactor this effect (automatically generated from lifecycle)
+          React.useEffect(() => {
+            if (!isMounted.current) {
+              isMounted.current = true;
+            } else {
+              if (prevUser.current !== props.user || prevId.current !== props.id) {
+                fetchUser(props.user);
+              }
+              if (prevCount.current !== count) {
+                log(count);
+              }
+            }
+          });
+
+          React.useEffect(() => {
+            prevUser.current = user;
+            prevId.current = id;
+            prevCount.current = count;
+          });
+
+          return null;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("transforms guarded blocks in componentDidUpdate to effects with dependencies", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          state = { page: 0 };
+          componentDidMount() {
+            this.fetch();
+          }
+          componentDidUpdate(prevProps, prevState) {
+            if (prevProps.id !== this.props.id || this.state.page !== prevState.page) {
+              this.fetch();
+            }
+            if (prevProps.user !== this.props.user) log(prevProps.user);
+            log("updated");
+          }
+          fetch() {
+            load(this.props.id, this.state.page);
+          }
+          render() {
+            return null;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = props => {
+          const {
+            id,
+            user
+          } = props;
+
+          const [page, setPage] = React.useState(0);
+
+          function fetch() {
+            load(id, page);
+          }
+
+          const prevUser = React.useRef(user);
+          const isMounted = React.useRef(false);
+
+          React.useEffect(() => {
+            if (isMounted.current) {
+              fetch();
+            }
+          }, [id, page]);
+
+          React.useEffect(() => {
+            if (isMounted.current) {
+              log(prevUser.current);
+            }
+          }, [user]);
+
+          // TODO(react-declassify): refactor this effect (automatically generated from lifecycle)
+          React.useEffect(() => {
+            if (!isMounted.current) {
+              isMounted.current = true;
+              fetch();
+            } else {
+              log("updated");
+            }
+          });
+
+          React.useEffect(() => {
+            prevUser.current = user;
+          });
+
+          return null;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("re-pairs resources in componentDidMount and componentWillUnmount", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          state = { width: 0 };
+          componentDidMount() {
+            window.addEventListener("resize", this.onResize);
+            this.timer = setInterval(() => this.tick(), 1000);
+            this.unsubscribe = store.subscribe(() => this.forceSync());
+            log("mounted");
+          }
+          componentWillUnmount() {
+            window.removeEventListener("resize", this.onResize);
+            clearInterval(this.timer);
+            this.unsubscribe();
+          }
+          onResize = () => {
+            this.setState({ width: window.innerWidth + this.props.offset });
+          };
+          tick() {}
+          forceSync() {}
+          render() {
+            return <div>{this.state.width}</div>;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = props => {
+          const [width, setWidth] = React.useState(0);
+
+          const onResize = () => {
+            setWidth(window.innerWidth + props.offset);
+          };
+
+          function tick() {}
+          function forceSync() {}
+          const onResizeRef = React.useRef(onResize);
+          onResizeRef.current = onResize;
+
+          React.useEffect(() => {
+            const listener = (...args) => onResizeRef.current(...args);
+            window.addEventListener("resize", listener);
+
+            return () => {
+              window.removeEventListener("resize", listener);
+            };
+          }, []);
+
+          React.useEffect(() => {
+            const timer = setInterval(() => tick(), 1000);
+
+            return () => {
+              clearInterval(timer);
+            };
+          }, []);
+
+          React.useEffect(() => {
+            const unsubscribe = store.subscribe(() => forceSync());
+
+            return () => {
+              unsubscribe();
+            };
+          }, []);
+
+          const isMounted = React.useRef(false);
+
+          // TODO(react-declassify): refactor this effect (automatically generated from lifecycle)
+          React.useEffect(() => {
+            if (!isMounted.current) {
+              isMounted.current = true;
+              log("mounted");
+            }
+          });
+
+          return <div>{width}</div>;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("re-pairs resources in TypeScript", () => {
+      const input = dedent`\
+        class C extends React.Component<Props> {
+          timer: number | undefined;
+          componentDidMount() {
+            document.addEventListener("keydown", this.onKeyDown);
+            this.timer = window.setTimeout(() => {}, 10);
+          }
+          componentWillUnmount() {
+            document.removeEventListener("keydown", this.onKeyDown);
+            clearTimeout(this.timer);
+          }
+          onKeyDown = (e: KeyboardEvent) => {
+            this.props.onKey(e.key);
+          };
+          render() {
+            return null;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C: React.FC<Props> = props => {
+          const {
+            onKey
+          } = props;
+
+          const onKeyDown = (e: KeyboardEvent) => {
+            onKey(e.key);
+          };
+
+          const onKeyDownRef = React.useRef(onKeyDown);
+          onKeyDownRef.current = onKeyDown;
+
+          React.useEffect(() => {
+            const listener = (...args: Parameters<typeof onKeyDown>) => onKeyDownRef.current(...args);
+            document.addEventListener("keydown", listener);
+
+            return () => {
+              document.removeEventListener("keydown", listener);
+            };
+          }, []);
+
+          React.useEffect(() => {
+            const timer = window.setTimeout(() => {}, 10);
+
+            return () => {
+              clearTimeout(timer);
+            };
+          }, []);
+
+          return null;
+        };
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("routes methods passed to resources through refs", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          state = { count: 0 };
+          componentDidMount() {
+            this.timer = setInterval(this.tick, 1000);
+            this.unsubscribe = store.subscribe(this.handleChange);
+          }
+          componentWillUnmount() {
+            clearInterval(this.timer);
+            this.unsubscribe();
+          }
+          tick = () => {
+            this.props.onTick(this.state.count);
+          };
+          handleChange = () => {
+            this.setState({ count: store.getState().count + this.props.offset });
+          };
+          render() {
+            return <div>{this.state.count}</div>;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = props => {
+          const {
+            onTick
+          } = props;
+
+          const [count, setCount] = React.useState(0);
+
+          const tick = () => {
+            onTick(count);
+          };
+
+          const handleChange = () => {
+            setCount(store.getState().count + props.offset);
+          };
+
+          const tickRef = React.useRef(tick);
+          tickRef.current = tick;
+
+          React.useEffect(() => {
+            const listener = (...args) => tickRef.current(...args);
+            const timer = setInterval(listener, 1000);
+
+            return () => {
+              clearInterval(timer);
+            };
+          }, []);
+
+          const handleChangeRef = React.useRef(handleChange);
+          handleChangeRef.current = handleChange;
+
+          React.useEffect(() => {
+            const listener0 = (...args) => handleChangeRef.current(...args);
+            const unsubscribe = store.subscribe(listener0);
+
+            return () => {
+              unsubscribe();
+            };
+          }, []);
+
+          return <div>{count}</div>;
+        };
+      `;
+      expect(transform(input)).toBe(output);
+    });
+
+    it("does not pair resources with closures referring to props", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          componentDidMount() {
+            this.timer = setInterval(() => this.props.onTick(), 1000);
+          }
+          componentWillUnmount() {
+            clearInterval(this.timer);
+          }
+          render() {
+            return null;
+          }
+        }
+      `;
+      const output = dedent`\
+        const C = props => {
+          const timer = React.useRef(undefined);
+          const isMounted = React.useRef(false);
+
+          // TODO(react-declassify): refactor this effect (automatically generated from lifecycle)
+          React.useEffect(() => {
+            if (!isMounted.current) {
+              isMounted.current = true;
+              timer.current = setInterval(() => props.onTick(), 1000);
+            }
+          });
 
           const cleanup = React.useRef(null);
 
           cleanup.current = () => {
-            console.log("unmounting");
+            clearInterval(timer.current);
           };
 
           // TODO(react-declassify): refactor this effect (automatically generated from lifecycle)
@@ -1322,6 +3936,103 @@ describe("react-declassify", () => {
       `;
       expect(transform(input)).toBe(output);
     });
+
+    it("transforms getSnapshotBeforeUpdate", () => {
+      const input = dedent`\
+        class ScrollingList extends React.Component<Props> {
+          listRef = React.createRef<HTMLUListElement>();
+
+          getSnapshotBeforeUpdate(prevProps: Props): number | null {
+            if (prevProps.list.length < this.props.list.length) {
+              const list = this.listRef.current!;
+              return list.scrollHeight - list.scrollTop;
+            }
+            return null;
+          }
+
+          componentDidUpdate(prevProps: Props, prevState: {}, snapshot: number | null) {
+            if (snapshot !== null) {
+              const list = this.listRef.current!;
+              list.scrollTop = list.scrollHeight - snapshot;
+            }
+          }
+
+          render() {
+            return <ul ref={this.listRef}>{this.props.list.map((item) => <li>{item}</li>)}</ul>;
+          }
+        }
+      `;
+      const output = dedent`\
+        const ScrollingList: React.FC<Props> = props => {
+          const {
+            list
+          } = props;
+
+          const listRef = React.useRef<HTMLUListElement>(null);
+          const prevList = React.useRef(list);
+          const isMounted = React.useRef(false);
+          const snapshot = React.useRef<number | null>(null);
+
+          if (isMounted.current) {
+            snapshot.current = (() => {
+              if (prevList.current.length < props.list.length) {
+                const list = listRef.current!;
+                return list.scrollHeight - list.scrollTop;
+              }
+              return null;
+            })();
+          }
+
+          // TODO(react-declassify): refactor this effect (automatically generated from lifecycle)
+          React.useLayoutEffect(() => {
+            if (!isMounted.current) {
+              isMounted.current = true;
+            } else {
+              if (snapshot.current !== null) {
+                const list = listRef.current!;
+                list.scrollTop = list.scrollHeight - snapshot.current;
+              }
+            }
+          });
+
+          React.useEffect(() => {
+            prevList.current = list;
+          });
+
+          return <ul ref={listRef}>{props.list.map((item) => <li>{item}</li>)}</ul>;
+        };
+      `;
+      expect(transform(input, { ts: true })).toBe(output);
+    });
+
+    it("errors on non-analyzable use of prevProps", () => {
+      const input = dedent`\
+        class C extends React.Component {
+          componentDidUpdate(prevProps) {
+            if (prevProps !== this.props) {
+              log("changed");
+            }
+          }
+          render() {
+            return null;
+          }
+        }
+      `;
+      const output = dedent`\
+        /* react-declassify-disable Cannot perform transformation: Non-analyzable use of prevProps in componentDidUpdate */
+        class C extends React.Component {
+          componentDidUpdate(prevProps) {
+            if (prevProps !== this.props) {
+              log("changed");
+            }
+          }
+          render() {
+            return null;
+          }
+        }
+      `;
+      expect(transform(input)).toBe(output);
+    });
   });
 
   test("readme example 1", () => {
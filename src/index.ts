@@ -1,5 +1,8 @@
 import type {
   ArrowFunctionExpression,
+  ClassBody,
+  ClassDeclaration,
+  ClassExpression,
   ClassMethod,
   ClassPrivateMethod,
   Comment,
@@ -8,13 +11,17 @@ import type {
   FunctionExpression,
   Identifier,
   ImportDeclaration,
+  JSXIdentifier,
+  JSXMemberExpression,
   MemberExpression,
   Node,
   ObjectMethod,
   Pattern,
+  Program,
   RestElement,
   Statement,
   TSEntityName,
+  TSPropertySignature,
   TSType,
   TSTypeAnnotation,
   TSTypeParameterDeclaration,
@@ -41,37 +48,98 @@ import {
   needsProps,
   LibRef,
   needAlias,
+  MemoComparator,
   SetStateFieldSite,
   SoftErrorRepository,
+  LegacyContextMapping,
+  ErrorBoundaryAnalysis,
+  analyzeErrorBoundary,
+  isErrorBoundary,
+  RefElementType,
+  UserDefinedFn,
+  StaticMemberAnalysis,
+  AliasCopy,
+  FunctionLikePath,
+  isEntityExpression,
+  returnsValue,
 } from "./analysis.js";
 
-// eslint-disable-next-line @typescript-eslint/ban-types
-type Options = {};
+export type Options = {
+  /**
+   * Mapping from legacy context keys (as in `static contextTypes`) to the modern context objects.
+   *
+   * E.g. `{ router: { source: "~/contexts", name: "RouterContext" } }`
+   */
+  legacyContexts?: Record<string, LegacyContextMapping> | undefined;
+  /**
+   * Split error boundaries (classes with `componentDidCatch` or `static getDerivedStateFromError`)
+   * into a minimal class and a function component rendered by it.
+   */
+  splitErrorBoundaries?: boolean | undefined;
+  /**
+   * Always initialize states lazily as in `useState(() => init)`, unless the initializer is a literal.
+   *
+   * By default, only initializers that seem to have side effects (e.g. function calls) are made lazy.
+   */
+  forceLazyStateInit?: boolean | undefined;
+  /**
+   * How to initialize instance fields whose initializers seem to have side effects, as in `store = new Store()`.
+   *
+   * - `"ref"` (default) ... `useRef(null)`, assigned in the first render.
+   *   TypeScript files always use the `"state"` form, as `useRef(null)` would not type-check.
+   * - `"state"` ... `useRef(useState(() => new Store())[0])`, which keeps the type inferred
+   */
+  lazyRefInit?: "ref" | "state" | undefined;
+};
 
 export default function plugin(
   babel: typeof import("@babel/core")
 ): PluginObj<PluginPass & { opts: Options }> {
   const { types: t } = babel;
+  // Error boundary classes generated by us, which are not to be transformed again
+  const boundaryShells = new WeakSet<ClassDeclaration>();
   return {
     name: "react-declassify",
     visitor: {
       ClassDeclaration(path, state) {
+        if (boundaryShells.has(path.node)) {
+          return;
+        }
         const ts = isTS(state);
         const preanalysis = preanalyzeClass(path);
         if (!preanalysis) {
           return;
         }
+        if (state.opts.splitErrorBoundaries && isErrorBoundary(path)) {
+          // The rest of the component is transformed when the split class is visited.
+          const stmtPath = path.parentPath.isExportDeclaration()
+            ? path.parentPath
+            : path;
+          try {
+            const boundary = analyzeErrorBoundary(path);
+            boundaryShells.add(splitErrorBoundary(path, boundary, ts, babel));
+          } catch (e) {
+            addErrorComment(babel, stmtPath.node, e);
+          }
+          return;
+        }
         const softErrors = new SoftErrorRepository();
         if (path.parentPath.isExportDefaultDeclaration()) {
           const declPath = path.parentPath;
           try {
-            const analysis = analyzeClass(path, preanalysis, softErrors);
-            const { funcNode, typeNode } = transformClass(
+            const analysis = analyzeClass(
+              path,
+              preanalysis,
+              softErrors,
+              state.opts
+            );
+            const { funcNode, typeNode, hoisted, trailing } = transformClass(
               analysis,
               softErrors,
-              { ts },
+              { ts, exported: true, lazyRefInit: state.opts.lazyRefInit },
               babel
             );
+            insertHoisted(declPath, hoisted);
             if (path.node.id) {
               // Necessary to avoid false error regarding duplicate declaration.
               path.scope.removeBinding(path.node.id.name);
@@ -82,31 +150,38 @@ export default function plugin(
                   funcNode,
                   typeNode ? t.tsTypeAnnotation(typeNode) : undefined
                 ),
+                ...trailing,
                 t.exportDefaultDeclaration(t.cloneNode(path.node.id)),
               ]);
             } else {
               path.replaceWith(funcNode);
             }
           } catch (e) {
-            if (!(e instanceof AnalysisError)) {
-              throw e;
-            }
-            t.addComment(
-              declPath.node,
-              "leading",
-              ` react-declassify-disable Cannot perform transformation: ${e.message} `
-            );
-            refreshComments(declPath.node);
+            addErrorComment(babel, declPath.node, e);
           }
         } else {
           try {
-            const analysis = analyzeClass(path, preanalysis, softErrors);
-            const { funcNode, typeNode } = transformClass(
+            const analysis = analyzeClass(
+              path,
+              preanalysis,
+              softErrors,
+              state.opts
+            );
+            const stmtPath = path.parentPath.isExportNamedDeclaration()
+              ? path.parentPath
+              : path;
+            const { funcNode, typeNode, hoisted, trailing } = transformClass(
               analysis,
               softErrors,
-              { ts },
+              {
+                ts,
+                exported: stmtPath !== path,
+                lazyRefInit: state.opts.lazyRefInit,
+              },
               babel
             );
+            insertHoisted(stmtPath, hoisted);
+            insertTrailing(stmtPath, trailing);
             // Necessary to avoid false error regarding duplicate declaration.
             path.scope.removeBinding(path.node.id.name);
             path.replaceWith(
@@ -118,15 +193,129 @@ export default function plugin(
               )
             );
           } catch (e) {
-            if (!(e instanceof AnalysisError)) {
-              throw e;
+            addErrorComment(babel, path.node, e);
+          }
+        }
+      },
+      ClassExpression(path, state) {
+        const ts = isTS(state);
+        const parentPath = path.parentPath;
+        const stmtPath = path.getStatementParent();
+        if (!stmtPath) {
+          return;
+        }
+        if (
+          parentPath.isVariableDeclarator({ init: path.node }) &&
+          parentPath.node.id.type === "Identifier"
+        ) {
+          // const C = class extends Component {}
+          const preanalysis = preanalyzeClass(path);
+          if (!preanalysis) {
+            return;
+          }
+          const softErrors = new SoftErrorRepository();
+          const declPath = stmtPath.parentPath.isExportNamedDeclaration()
+            ? stmtPath.parentPath
+            : stmtPath;
+          try {
+            const analysis = analyzeClass(
+              path,
+              preanalysis,
+              softErrors,
+              state.opts
+            );
+            const { funcNode, typeNode, hoisted, trailing } = transformClass(
+              analysis,
+              softErrors,
+              {
+                ts,
+                exported: declPath !== stmtPath,
+                lazyRefInit: state.opts.lazyRefInit,
+              },
+              babel
+            );
+            insertHoisted(declPath, hoisted);
+            insertTrailing(declPath, trailing);
+            const id = parentPath.node.id;
+            // const C = class Inner extends React.Component {} -> Inner is replaced with C
+            renameSelfReferences(path, id.name);
+            if (typeNode && !id.typeAnnotation) {
+              // const C = class extends React.Component {} -> const C: React.FC = () => {}
+              id.typeAnnotation = t.tsTypeAnnotation(typeNode);
+            }
+            path.replaceWith(funcNode);
+          } catch (e) {
+            addErrorComment(babel, declPath.node, e);
+          }
+        } else if (
+          parentPath.isCallExpression() ||
+          parentPath.isExportDefaultDeclaration()
+        ) {
+          // E.g.
+          // export default connect(mapState)(class extends Component {})
+          // export default (class extends Component {})
+          const preanalysis = preanalyzeClass(path);
+          if (!preanalysis) {
+            return;
+          }
+          const softErrors = new SoftErrorRepository();
+          // The annotation cannot be placed in the middle of the expression,
+          // so we hoist the component to a `const` in TypeScript.
+          // This is only possible when the statement shares the scope with the class.
+          const hoist = ts && stmtPath.scope === parentPath.scope;
+          const hoistedName = hoist
+            ? hoistedComponentName(path, stmtPath, state)
+            : undefined;
+          if (hoistedName) {
+            // Also used for the static members and `this` in them
+            preanalysis.name = t.identifier(hoistedName);
+          }
+          try {
+            const analysis = analyzeClass(
+              path,
+              preanalysis,
+              softErrors,
+              state.opts
+            );
+            if (
+              !hoist &&
+              (analysis.statics.members.size > 0 ||
+                analysis.statics.thisSites.length > 0)
+            ) {
+              throw new AnalysisError(
+                "Cannot transform static members of a class expression in place"
+              );
             }
-            t.addComment(
-              path.node,
-              "leading",
-              ` react-declassify-disable Cannot perform transformation: ${e.message} `
+            const { funcNode, typeNode, hoisted, trailing } = transformClass(
+              analysis,
+              softErrors,
+              {
+                ts,
+                keepName: !hoist && !!path.node.id,
+                exported: stmtPath.isExportDeclaration(),
+                lazyRefInit: state.opts.lazyRefInit,
+              },
+              babel
             );
-            refreshComments(path.node);
+            insertHoisted(stmtPath, hoisted);
+            if (hoistedName) {
+              const name = hoistedName;
+              renameSelfReferences(path, name);
+              stmtPath.insertBefore([
+                constDeclaration(
+                  babel,
+                  t.identifier(name),
+                  funcNode,
+                  typeNode ? t.tsTypeAnnotation(typeNode) : undefined
+                ),
+                ...trailing,
+              ]);
+              path.replaceWith(t.identifier(name));
+            } else {
+              path.replaceWith(funcNode);
+            }
+          } catch (e) {
+            addErrorComment(babel, stmtPath.node, e);
           }
         }
       },
@@ -134,23 +323,92 @@ export default function plugin(
   };
 }
 
+/**
+ * Chooses the name of the component hoisted out of an expression like `connect(mapState)(class extends Component {})`.
+ *
+ * Anonymous classes are named after the variable or the file they are exported from.
+ */
+function hoistedComponentName(
+  path: NodePath<ClassExpression>,
+  stmtPath: NodePath<Statement>,
+  state: PluginPass
+): string {
+  let baseName = path.node.id?.name;
+  if (baseName == null) {
+    let currentPath: NodePath = path.parentPath;
+    while (currentPath.isCallExpression()) {
+      currentPath = currentPath.parentPath!;
+    }
+    if (
+      currentPath.isVariableDeclarator() &&
+      currentPath.node.id.type === "Identifier"
+    ) {
+      // const Foo = connect(mapState)(class extends Component {}) -> FooComponent
+      baseName = `${currentPath.node.id.name}Component`;
+    } else if (currentPath.isExportDefaultDeclaration() && state.filename) {
+      // export default connect(mapState)(class extends Component {}) in Foo.tsx -> Foo
+      const match = /(?:^|[\\/])([A-Z][\w$]*)\.[^\\/]*$/.exec(state.filename);
+      baseName = match?.[1];
+    }
+  }
+  baseName ??= "Component";
+  return stmtPath.scope.hasBinding(baseName)
+    ? stmtPath.scope.generateUid(baseName)
+    : baseName;
+}
+
+/**
+ * Static members that `React.FC` already has
+ */
+const FC_STATIC_NAMES = new Set<string>([
+  "contextTypes",
+  "defaultProps",
+  "displayName",
+  "propTypes",
+]);
+
 type TransformResult = {
   funcNode: Expression;
   typeNode?: TSType | undefined;
+  /**
+   * Statements to be placed before the component, e.g. `getDerivedStateFromProps`
+   */
+  hoisted: Statement[];
+  /**
+   * Statements to be placed after the component, e.g. static members
+   */
+  trailing: Statement[];
 };
 
 function transformClass(
   analysis: AnalysisResult,
   softErrors: SoftErrorRepository,
-  options: { ts: boolean },
+  options: {
+    ts: boolean;
+    /**
+     * Emit a named function so that the component keeps its display name
+     * even if it is not bound to a variable.
+     */
+    keepName?: boolean | undefined;
+    /**
+     * The component is exported, in which case the generated types are exported as well.
+     */
+    exported?: boolean | undefined;
+    lazyRefInit?: "ref" | "state" | undefined;
+  },
   babel: typeof import("@babel/core")
 ): TransformResult {
   const { types: t } = babel;
-  const { ts } = options;
+  const { ts, keepName, exported, lazyRefInit = "ref" } = options;
 
   for (const [, prop] of analysis.props.props) {
     for (const alias of prop.aliases) {
-      if (alias.localName !== prop.newAliasName!) {
+      if (alias.copy) {
+        // Reassigned variables are copied from the hoisted one.
+        // E.g. `let { foo } = this.props` -> `let foo0 = foo;`
+        alias.scope.rename(alias.localName, alias.copy.newName);
+        insertAliasCopy(babel, alias.copy, prop.newAliasName!);
+      } else if (alias.localName !== prop.newAliasName!) {
         // Rename variables that props are bound to.
         // E.g. `foo` as in `const { foo } = this.props`.
         // This is to ensure we hoist them correctly.
@@ -158,6 +416,15 @@ function transformClass(
       }
     }
   }
+  for (const aliasCopy of analysis.state.aliasCopies) {
+    // `let { foo } = this.state` -> `let foo0 = foo;`
+    aliasCopy.scope.rename(aliasCopy.localName, aliasCopy.copy.newName);
+    insertAliasCopy(
+      babel,
+      aliasCopy.copy,
+      analysis.state.states.get(aliasCopy.name)!.localName!
+    );
+  }
   for (const path of analysis.locals.removePaths) {
     path.remove();
   }
@@ -166,6 +433,14 @@ function transformClass(
     // to avoid unintentional variable capturing.
     ren.scope.rename(ren.oldName, ren.newName);
   }
+  for (const thisPath of analysis.statics.thisSites) {
+    // this.foo in static members -> C.foo
+    thisPath.replaceWith(t.identifier(analysis.name!.name));
+  }
+  for (const stmtPath of analysis.statics.externalStmts) {
+    // C.defaultProps = {}; is folded into the component
+    stmtPath.remove();
+  }
   for (const [, prop] of analysis.props.props) {
     for (const site of prop.sites) {
       if (site.enabled) {
@@ -174,10 +449,30 @@ function transformClass(
       }
     }
   }
+  for (const pattern of analysis.props.patterns) {
+    // const { foo = 1 } = this.props -> const { foo = 1 } = { foo }
+    pattern.path.replaceWith(
+      t.objectExpression(
+        pattern.keys.map((key) => {
+          const newAliasName = analysis.props.props.get(key)!.newAliasName!;
+          return t.objectProperty(
+            t.isValidIdentifier(key) ? t.identifier(key) : t.stringLiteral(key),
+            t.identifier(newAliasName),
+            false,
+            key === newAliasName
+          );
+        })
+      )
+    );
+  }
   for (const site of analysis.props.sites) {
     if (!site.child?.enabled) {
       // this.props -> props
-      site.path.replaceWith(site.path.node.property);
+      site.path.replaceWith(
+        site.path.isMemberExpression()
+          ? site.path.node.property
+          : t.identifier("props")
+      );
     }
   }
   for (const [, prop] of analysis.props.props) {
@@ -208,6 +503,41 @@ function transformClass(
       }
     }
   }
+  for (const site of analysis.context.sites) {
+    // this.context -> context
+    site.path.replaceWith(t.identifier(analysis.context.localName!));
+  }
+  for (const [, consumer] of analysis.context.legacyConsumers) {
+    for (const site of consumer.sites) {
+      // this.context.router -> router
+      site.path.replaceWith(t.identifier(consumer.localName!));
+    }
+  }
+  for (const prevValues of [
+    analysis.effects.prevProps,
+    analysis.effects.prevStates,
+  ]) {
+    for (const [, prevValue] of prevValues) {
+      for (const site of prevValue.sites) {
+        // prevProps.foo -> prevFoo.current
+        site.replaceWith(
+          t.memberExpression(
+            t.identifier(prevValue.localName!),
+            t.identifier("current")
+          )
+        );
+      }
+    }
+  }
+  for (const site of analysis.effects.snapshot?.sites ?? []) {
+    // snapshot -> snapshot.current
+    site.replaceWith(
+      t.memberExpression(
+        t.identifier(analysis.effects.snapshot!.localName!),
+        t.identifier("current")
+      )
+    );
+  }
   for (const [, stateAnalysis] of analysis.state.states) {
     for (const site of stateAnalysis.sites) {
       if (site.type === "expr") {
@@ -216,25 +546,52 @@ function transformClass(
       }
     }
   }
-  for (const site of analysis.state.setStateSites) {
-    function setter(field: SetStateFieldSite) {
-      // this.setState({ foo: 1 }) -> setFoo(1)
-      return t.callExpression(
-        t.identifier(analysis.state.states.get(field.name)!.localSetterName!),
-        [field.valuePath.node]
+  for (const site of analysis.state.patternSites) {
+    // const { foo = 1 } = this.state -> const { foo = 1 } = { foo: foo0 }
+    site.path.replaceWith(
+      t.objectExpression(
+        site.names.map((name) => {
+          const localName = analysis.state.states.get(name)!.localName!;
+          return t.objectProperty(
+            t.identifier(name),
+            t.identifier(localName),
+            false,
+            name === localName
+          );
+        })
+      )
+    );
+  }
+  for (const [, stringRef] of analysis.stringRefs.refs) {
+    for (const attr of stringRef.attrs) {
+      // ref="foo" -> ref={foo}
+      attr.node.value = t.jsxExpressionContainer(
+        t.identifier(stringRef.localName!)
       );
     }
-    if (site.fields.length === 1) {
-      const field = site.fields[0]!;
-      site.path.replaceWith(setter(field));
-    } else if (site.path.parentPath.isExpressionStatement()) {
-      site.path.parentPath.replaceWithMultiple(
-        site.fields.map((field) => t.expressionStatement(setter(field)))
+    for (const site of stringRef.sites) {
+      // this.refs.foo -> foo.current
+      site.replaceWith(
+        t.memberExpression(
+          t.identifier(stringRef.localName!),
+          t.identifier("current")
+        )
       );
-    } else if (site.fields.length === 0) {
-      site.path.replaceWith(t.nullLiteral());
-    } else {
-      site.path.replaceWith(t.sequenceExpression(site.fields.map(setter)));
+    }
+  }
+  for (const site of analysis.forceUpdate.sites) {
+    // this.forceUpdate -> forceUpdate
+    site.replaceWith(t.identifier(analysis.forceUpdate.localName!));
+  }
+  if (analysis.state.whole) {
+    const { whole } = analysis.state;
+    for (const site of whole.sites) {
+      // this.state -> state
+      site.path.replaceWith(t.identifier(whole.localName!));
+    }
+    for (const site of whole.setStateSites) {
+      // this.setState -> setState
+      site.path.replaceWith(t.identifier(whole.localSetterName!));
     }
   }
   for (const [, field] of analysis.userDefined.fields) {
@@ -249,6 +606,10 @@ function transformClass(
         }
       }
     } else if (field.type === "user_defined_direct_ref") {
+      for (const site of field.callbackRef?.callbackSites ?? []) {
+        // ref={(el) => this.foo = el} -> ref={foo}
+        site.replaceWith(t.identifier(field.localName!));
+      }
       for (const site of field.sites) {
         if (site.type === "expr") {
           // this.foo -> foo.current
@@ -270,6 +631,65 @@ function transformClass(
     }
   }
 
+  // Done after the replacements above, as it moves the values to new parents
+  for (const site of analysis.state.setStateSites) {
+    for (const propsSite of site.propsSites) {
+      // (prev, props) => ... props.foo -> foo
+      propsSite.path.replaceWith(
+        t.identifier(analysis.props.props.get(propsSite.name)!.newAliasName!)
+      );
+    }
+    function setter(field: SetStateFieldSite) {
+      const stateAnalysis = analysis.state.states.get(field.name)!;
+      if (field.prevSites && field.prevSites.length > 0) {
+        // this.setState((prev) => ({ foo: prev.foo + 1 })) -> setFoo((foo) => foo + 1)
+        for (const prevSite of field.prevSites) {
+          prevSite.replaceWith(t.identifier(stateAnalysis.localName!));
+        }
+        return t.callExpression(t.identifier(stateAnalysis.localSetterName!), [
+          t.arrowFunctionExpression(
+            [t.identifier(stateAnalysis.localName!)],
+            field.valuePath.node
+          ),
+        ]);
+      }
+      // this.setState({ foo: 1 }) -> setFoo(1)
+      return t.callExpression(t.identifier(stateAnalysis.localSetterName!), [
+        field.valuePath.node,
+      ]);
+    }
+    const exprs: Expression[] = site.fields.map(setter);
+    if (site.callback) {
+      // this.setState({ foo: 1 }, callback)
+      // -> setFoo(1), pendingCallbacks.current.push(0), requestCallbacks()
+      // The callback itself is moved to the effect so that it sees the updated values.
+      exprs.push(
+        t.callExpression(
+          t.memberExpression(
+            t.memberExpression(
+              t.identifier(analysis.state.pendingCallbacksName!),
+              t.identifier("current")
+            ),
+            t.identifier("push")
+          ),
+          [t.numericLiteral(site.callback.index)]
+        ),
+        t.callExpression(t.identifier(analysis.state.requestCallbacksName!), [])
+      );
+    }
+    if (exprs.length === 1) {
+      site.path.replaceWith(exprs[0]!);
+    } else if (site.path.parentPath.isExpressionStatement()) {
+      site.path.parentPath.replaceWithMultiple(
+        exprs.map((expr) => t.expressionStatement(expr))
+      );
+    } else if (exprs.length === 0) {
+      site.path.replaceWith(t.nullLiteral());
+    } else {
+      site.path.replaceWith(t.sequenceExpression(exprs));
+    }
+  }
+
   // Soft error handling
   for (const softError of softErrors.errors) {
     if (softError.type === "invalid_this") {
@@ -280,6 +700,20 @@ function transformClass(
 
   // Preamble is a set of statements to be added before the original render body.
   const preamble: Statement[] = [];
+  if (analysis.props.merged) {
+    // const props = { ...defaultProps, ...rawProps };
+    preamble.push(
+      t.variableDeclaration("const", [
+        t.variableDeclarator(
+          t.identifier("props"),
+          t.objectExpression([
+            t.spreadElement(t.identifier(analysis.props.merged.hoistedName!)),
+            t.spreadElement(t.identifier(analysis.props.merged.rawName!)),
+          ])
+        ),
+      ])
+    );
+  }
   const propsWithAlias = Array.from(analysis.props.props).filter(([, prop]) =>
     needAlias(prop)
   );
@@ -293,7 +727,7 @@ function transformClass(
             propsWithAlias.map(([name, prop]) =>
               t.objectProperty(
                 t.identifier(name),
-                prop.defaultValue
+                prop.defaultValue && !analysis.props.merged
                   ? t.assignmentPattern(
                       t.identifier(prop.newAliasName!),
                       prop.defaultValue.node
@@ -309,11 +743,54 @@ function transformClass(
       ])
     );
   }
+  if (analysis.context.contextType) {
+    // const context = useContext(ThemeContext);
+    preamble.push(
+      constDeclaration(
+        babel,
+        t.identifier(analysis.context.localName!),
+        t.callExpression(
+          getReactImport("useContext", babel, analysis.superClassRef),
+          [analysis.context.contextType.node]
+        ),
+        ts && analysis.context.typeAnnotation
+          ? t.tsTypeAnnotation(analysis.context.typeAnnotation.node)
+          : undefined
+      )
+    );
+  }
+  for (const [, consumer] of analysis.context.legacyConsumers) {
+    // const router = useContext(RouterContext);
+    preamble.push(
+      constDeclaration(
+        babel,
+        t.identifier(consumer.localName!),
+        t.callExpression(
+          getReactImport("useContext", babel, analysis.superClassRef),
+          [
+            getModuleImport(
+              consumer.mapping.name,
+              consumer.mapping.source,
+              babel,
+              analysis.render.path
+            ),
+          ]
+        )
+      )
+    );
+  }
   for (const field of analysis.state.states.values()) {
     // State declarations
     const call = t.callExpression(
       getReactImport("useState", babel, analysis.superClassRef),
-      field.init ? [field.init.valuePath.node] : []
+      field.init && !isUndefined(field.init.valuePath.node)
+        ? [
+            field.lazyInit
+              ? // useState(() => init)
+                t.arrowFunctionExpression([], field.init.valuePath.node)
+              : field.init.valuePath.node,
+          ]
+        : []
     );
     preamble.push(
       t.variableDeclaration("const", [
@@ -340,104 +817,489 @@ function transformClass(
       ])
     );
   }
-  for (const [, field] of analysis.userDefined.fields) {
-    if (field.type === "user_defined_function") {
-      // Method definitions.
-      let init: Expression =
-        field.init.type === "method"
-          ? functionExpressionFrom(
-              babel,
-              field.init.path.node,
-              t.identifier(field.localName!)
-            )
-          : field.init.initPath.node;
-      if (field.needMemo) {
-        const depVars = new Set<string>();
-        const depProps = new Set<string>();
-        for (const dep of field.dependencies) {
-          switch (dep.type) {
-            case "dep_props_obj":
-              depVars.add("props");
-              break;
-            case "dep_prop":
-              depProps.add(dep.name);
-              break;
-            case "dep_prop_alias": {
-              const prop = analysis.props.props.get(dep.name)!;
-              depVars.add(prop.newAliasName!);
-              break;
-            }
-            case "dep_state": {
-              const state = analysis.state.states.get(dep.name)!;
-              depVars.add(state.localName!);
-              break;
-            }
-            case "dep_function": {
-              const field = analysis.userDefined.fields.get(dep.name)!;
-              depVars.add(field.localName!);
-              break;
-            }
-          }
-        }
-        init = t.callExpression(
-          getReactImport("useCallback", babel, analysis.superClassRef),
-          [
-            init,
-            t.arrayExpression([
-              ...Array.from(depVars)
-                .sort()
-                .map((name) => t.identifier(name)),
-              ...Array.from(depProps)
-                .sort()
-                .map((name) =>
-                  t.memberExpression(t.identifier("props"), t.identifier(name))
-                ),
-            ]),
+  if (analysis.state.whole) {
+    const { whole } = analysis.state;
+    // Emit `const [state, replaceState] = useState(init);`
+    const call = t.callExpression(
+      getReactImport("useState", babel, analysis.superClassRef),
+      whole.init && !isUndefined(whole.init.node)
+        ? [
+            whole.lazyInit
+              ? t.arrowFunctionExpression([], whole.init.node)
+              : whole.init.node,
           ]
-        );
-      }
-      preamble.push(
-        constDeclaration(
-          babel,
-          t.identifier(field.localName!),
-          init,
-          field.typeAnnotation
-            ? t.tsTypeAnnotation(field.typeAnnotation.node)
-            : undefined
-        )
-      );
-    } else if (field.type === "user_defined_ref") {
-      // const foo = useRef(null);
-      const call = t.callExpression(
-        getReactImport("useRef", babel, analysis.superClassRef),
-        [t.nullLiteral()]
+        : []
+    );
+    preamble.push(
+      t.variableDeclaration("const", [
+        t.variableDeclarator(
+          t.arrayPattern([
+            t.identifier(whole.localName!),
+            t.identifier(whole.localRawSetterName!),
+          ]),
+          ts && whole.typeAnnotation
+            ? assignTypeArguments(
+                call,
+                t.tsTypeParameterInstantiation([whole.typeAnnotation.node])
+              )
+            : call
+        ),
+      ])
+    );
+    // Emit the merging setter:
+    // const setState = useCallback((patch) => replaceState((prev) => ({
+    //   ...prev,
+    //   ...(typeof patch === "function" ? patch(prev) : patch),
+    // })), []);
+    const stateType = (): TSType =>
+      whole.typeAnnotation
+        ? t.cloneNode(whole.typeAnnotation.node)
+        : t.tsTypeQuery(t.identifier(whole.localName!));
+    const partialType = () =>
+      t.tsTypeReference(
+        t.identifier("Partial"),
+        t.tsTypeParameterInstantiation([stateType()])
       );
-      preamble.push(
-        t.variableDeclaration("const", [
-          t.variableDeclarator(
-            t.identifier(field.localName!),
-            ts && field.typeAnnotation
-              ? assignTypeArguments(
-                  call,
-                  t.tsTypeParameterInstantiation([field.typeAnnotation.node])
-                )
-              : call
+    const patchParam = t.identifier("patch");
+    const prevParam = t.identifier("prev");
+    if (ts) {
+      prevParam.typeAnnotation = t.tsTypeAnnotation(stateType());
+      patchParam.typeAnnotation = t.tsTypeAnnotation(
+        t.tsUnionType([
+          partialType(),
+          t.tsParenthesizedType(
+            t.tsFunctionType(
+              null,
+              [prevParam],
+              t.tsTypeAnnotation(partialType())
+            )
           ),
         ])
       );
-    } else if (field.type === "user_defined_direct_ref") {
-      // const foo = useRef(init);
-      const call = t.callExpression(
-        getReactImport("useRef", babel, analysis.superClassRef),
-        [field.init ? field.init.node : t.identifier("undefined")]
-      );
-      preamble.push(
-        t.variableDeclaration("const", [
-          t.variableDeclarator(
-            t.identifier(field.localName!),
-            ts && field.typeAnnotation
-              ? assignTypeArguments(
-                  call,
+    }
+    preamble.push(
+      t.variableDeclaration("const", [
+        t.variableDeclarator(
+          t.identifier(whole.localSetterName!),
+          t.callExpression(
+            getReactImport("useCallback", babel, analysis.superClassRef),
+            [
+              t.arrowFunctionExpression(
+                [patchParam],
+                t.callExpression(t.identifier(whole.localRawSetterName!), [
+                  t.arrowFunctionExpression(
+                    [t.identifier("prev")],
+                    t.objectExpression([
+                      t.spreadElement(t.identifier("prev")),
+                      t.spreadElement(
+                        t.conditionalExpression(
+                          t.binaryExpression(
+                            "===",
+                            t.unaryExpression("typeof", t.identifier("patch")),
+                            t.stringLiteral("function")
+                          ),
+                          t.callExpression(t.identifier("patch"), [
+                            t.identifier("prev"),
+                          ]),
+                          t.identifier("patch")
+                        )
+                      ),
+                    ])
+                  ),
+                ])
+              ),
+              t.arrayExpression([]),
+            ]
+          )
+        ),
+      ])
+    );
+  }
+  if (analysis.forceUpdate.localName) {
+    // Emit `const [, forceUpdate] = useReducer((x) => x + 1, 0);`
+    preamble.push(
+      t.variableDeclaration("const", [
+        t.variableDeclarator(
+          t.arrayPattern([null, t.identifier(analysis.forceUpdate.localName)]),
+          t.callExpression(
+            getReactImport("useReducer", babel, analysis.superClassRef),
+            [
+              t.arrowFunctionExpression(
+                [t.identifier("x")],
+                t.binaryExpression("+", t.identifier("x"), t.numericLiteral(1))
+              ),
+              t.numericLiteral(0),
+            ]
+          )
+        ),
+      ])
+    );
+  }
+  const hoisted: Statement[] = [];
+  if (analysis.props.merged) {
+    // Hoist `const defaultProps = { ... };`
+    hoisted.push(
+      t.variableDeclaration("const", [
+        t.variableDeclarator(
+          t.identifier(analysis.props.merged.hoistedName!),
+          analysis.props.merged.defaultPropsPath.node
+        ),
+      ])
+    );
+  }
+  if (analysis.derivedState) {
+    const { derivedState } = analysis;
+    // Hoist `function getDerivedStateFromProps(props, state) { ... }`
+    hoisted.push(
+      functionDeclarationFrom(
+        babel,
+        derivedState.path.node,
+        t.identifier(derivedState.hoistedName!)
+      )
+    );
+    // Emit `const prevProps = useRef(null);`
+    const prevPropsCurrent = t.memberExpression(
+      t.identifier(derivedState.prevPropsName!),
+      t.identifier("current")
+    );
+    preamble.push(
+      t.variableDeclaration("const", [
+        t.variableDeclarator(
+          t.identifier(derivedState.prevPropsName!),
+          assignTypeArguments(
+            t.callExpression(
+              getReactImport("useRef", babel, analysis.superClassRef),
+              [t.nullLiteral()]
+            ),
+            // Type annotation: useRef<typeof props | null>
+            ts
+              ? t.tsTypeParameterInstantiation([
+                  t.tsUnionType([
+                    t.tsTypeQuery(
+                      t.identifier(analysis.props.merged?.rawName ?? "props")
+                    ),
+                    t.tsNullKeyword(),
+                  ]),
+                ])
+              : null
+          )
+        ),
+      ])
+    );
+    // Emit `const derivedState = getDerivedStateFromProps(props, { foo });`
+    const derivedStateDecl = t.variableDeclaration("const", [
+      t.variableDeclarator(
+        t.identifier(derivedState.localName!),
+        t.callExpression(t.identifier(derivedState.hoistedName!), [
+          t.identifier("props"),
+          t.objectExpression(
+            Array.from(analysis.state.states, ([name, field]) =>
+              t.objectProperty(
+                t.identifier(name),
+                t.identifier(field.localName!),
+                false,
+                name === field.localName
+              )
+            )
+          ),
+        ])
+      ),
+    ]);
+    // Emit `if (derivedState != null) { ... }` to adjust states during rendering
+    const derivedField = (name: string) =>
+      t.memberExpression(
+        t.identifier(derivedState.localName!),
+        t.identifier(name)
+      );
+    const adjustment = t.ifStatement(
+      t.binaryExpression(
+        "!=",
+        t.identifier(derivedState.localName!),
+        t.nullLiteral()
+      ),
+      t.blockStatement(
+        Array.from(analysis.state.states, ([name, field]) =>
+          // if ("foo" in derivedState && derivedState.foo !== foo) { setFoo(derivedState.foo); }
+          t.ifStatement(
+            t.logicalExpression(
+              "&&",
+              t.binaryExpression(
+                "in",
+                t.stringLiteral(name),
+                t.identifier(derivedState.localName!)
+              ),
+              t.binaryExpression(
+                "!==",
+                derivedField(name),
+                t.identifier(field.localName!)
+              )
+            ),
+            t.blockStatement([
+              t.expressionStatement(
+                t.callExpression(t.identifier(field.localSetterName!), [
+                  derivedField(name),
+                ])
+              ),
+            ])
+          )
+        )
+      )
+    );
+    // Emit `if (prevProps.current !== props) { prevProps.current = props; ... }`
+    // so that the function is called again only when the props change,
+    // which prevents infinite re-rendering even if the function returns a new object every time.
+    // The raw props are compared as the merged ones are created in every render.
+    const propsIdentity = analysis.props.merged?.rawName ?? "props";
+    preamble.push(
+      t.ifStatement(
+        t.binaryExpression(
+          "!==",
+          t.cloneNode(prevPropsCurrent),
+          t.identifier(propsIdentity)
+        ),
+        t.blockStatement([
+          t.expressionStatement(
+            t.assignmentExpression(
+              "=",
+              t.cloneNode(prevPropsCurrent),
+              t.identifier(propsIdentity)
+            )
+          ),
+          derivedStateDecl,
+          adjustment,
+        ])
+      )
+    );
+  }
+  for (const [, stringRef] of analysis.stringRefs.refs) {
+    // const foo = useRef<HTMLInputElement>(null);
+    const call = t.callExpression(
+      getReactImport("useRef", babel, analysis.superClassRef),
+      [t.nullLiteral()]
+    );
+    preamble.push(
+      t.variableDeclaration("const", [
+        t.variableDeclarator(
+          t.identifier(stringRef.localName!),
+          ts
+            ? assignTypeArguments(
+                call,
+                t.tsTypeParameterInstantiation([
+                  refElementTSType(
+                    stringRef.elementType,
+                    babel,
+                    analysis.superClassRef
+                  ),
+                ])
+              )
+            : call
+        ),
+      ])
+    );
+  }
+  for (const [, field] of analysis.userDefined.fields) {
+    if (field.type === "user_defined_function") {
+      // Method definitions.
+      let init: Expression =
+        field.init.type === "method"
+          ? functionExpressionFrom(
+              babel,
+              field.init.path.node,
+              t.identifier(field.localName!)
+            )
+          : field.init.initPath.node;
+      if (field.needMemo) {
+        const depVars = new Set<string>();
+        const depProps = new Set<string>();
+        for (const dep of field.dependencies) {
+          switch (dep.type) {
+            case "dep_props_obj":
+              depVars.add("props");
+              break;
+            case "dep_prop":
+              depProps.add(dep.name);
+              break;
+            case "dep_prop_alias": {
+              const prop = analysis.props.props.get(dep.name)!;
+              depVars.add(prop.newAliasName!);
+              break;
+            }
+            case "dep_state": {
+              const state = analysis.state.states.get(dep.name)!;
+              depVars.add(state.localName!);
+              break;
+            }
+            case "dep_state_obj":
+              depVars.add(analysis.state.whole!.localName!);
+              break;
+            case "dep_context":
+              depVars.add(analysis.context.localName!);
+              break;
+            case "dep_legacy_context": {
+              const consumer = analysis.context.legacyConsumers.get(dep.name)!;
+              depVars.add(consumer.localName!);
+              break;
+            }
+            case "dep_function": {
+              const field = analysis.userDefined.fields.get(dep.name)!;
+              depVars.add(field.localName!);
+              break;
+            }
+          }
+        }
+        init = t.callExpression(
+          getReactImport("useCallback", babel, analysis.superClassRef),
+          [
+            init,
+            t.arrayExpression([
+              ...Array.from(depVars)
+                .sort()
+                .map((name) => t.identifier(name)),
+              ...Array.from(depProps)
+                .sort()
+                .map((name) =>
+                  t.memberExpression(t.identifier("props"), t.identifier(name))
+                ),
+            ]),
+          ]
+        );
+      }
+      preamble.push(
+        constDeclaration(
+          babel,
+          t.identifier(field.localName!),
+          init,
+          field.typeAnnotation
+            ? t.tsTypeAnnotation(field.typeAnnotation.node)
+            : undefined
+        )
+      );
+    } else if (field.type === "user_defined_ref") {
+      // const foo = useRef(null);
+      const call = t.callExpression(
+        getReactImport("useRef", babel, analysis.superClassRef),
+        [t.nullLiteral()]
+      );
+      preamble.push(
+        t.variableDeclaration("const", [
+          t.variableDeclarator(
+            t.identifier(field.localName!),
+            ts && field.typeAnnotation
+              ? assignTypeArguments(
+                  call,
+                  t.tsTypeParameterInstantiation([field.typeAnnotation.node])
+                )
+              : call
+          ),
+        ])
+      );
+    } else if (field.type === "user_defined_direct_ref") {
+      if (field.callbackRef) {
+        // const foo = useRef<HTMLDivElement>(null);
+        const call = t.callExpression(
+          getReactImport("useRef", babel, analysis.superClassRef),
+          [t.nullLiteral()]
+        );
+        preamble.push(
+          t.variableDeclaration("const", [
+            t.variableDeclarator(
+              t.identifier(field.localName!),
+              ts
+                ? assignTypeArguments(
+                    call,
+                    t.tsTypeParameterInstantiation([
+                      refElementTSType(
+                        field.callbackRef.elementType,
+                        babel,
+                        analysis.superClassRef
+                      ),
+                    ])
+                  )
+                : call
+            ),
+          ])
+        );
+        continue;
+      }
+      if (field.init && field.lazyInit && lazyRefInit === "ref" && !ts) {
+        // const foo = useRef(null);
+        // const fooInitialized = useRef(false);
+        // if (!fooInitialized.current) { foo.current = init; fooInitialized.current = true; }
+        //
+        // In TS, `useRef(null)` would be typed `MutableRefObject<null>`, so we use the `useState` form below instead.
+        const current = t.memberExpression(
+          t.identifier(field.localName!),
+          t.identifier("current")
+        );
+        const flagCurrent = t.memberExpression(
+          t.identifier(field.initFlagName!),
+          t.identifier("current")
+        );
+        preamble.push(
+          constDeclaration(
+            babel,
+            t.identifier(field.localName!),
+            t.callExpression(
+              getReactImport("useRef", babel, analysis.superClassRef),
+              [t.nullLiteral()]
+            )
+          ),
+          constDeclaration(
+            babel,
+            t.identifier(field.initFlagName!),
+            t.callExpression(
+              getReactImport("useRef", babel, analysis.superClassRef),
+              [t.booleanLiteral(false)]
+            )
+          ),
+          t.ifStatement(
+            t.unaryExpression("!", t.cloneNode(flagCurrent)),
+            t.blockStatement([
+              t.expressionStatement(
+                t.assignmentExpression(
+                  "=",
+                  t.cloneNode(current),
+                  field.init.node
+                )
+              ),
+              t.expressionStatement(
+                t.assignmentExpression(
+                  "=",
+                  t.cloneNode(flagCurrent),
+                  t.booleanLiteral(true)
+                )
+              ),
+            ])
+          )
+        );
+        continue;
+      }
+      let init: Expression = field.init
+        ? field.init.node
+        : t.identifier("undefined");
+      if (field.init && field.lazyInit) {
+        // useState(() => init)[0]
+        init = t.memberExpression(
+          t.callExpression(
+            getReactImport("useState", babel, analysis.superClassRef),
+            [t.arrowFunctionExpression([], field.init.node)]
+          ),
+          t.numericLiteral(0),
+          true
+        );
+      }
+      // const foo = useRef(init);
+      const call = t.callExpression(
+        getReactImport("useRef", babel, analysis.superClassRef),
+        [init]
+      );
+      preamble.push(
+        t.variableDeclaration("const", [
+          t.variableDeclarator(
+            t.identifier(field.localName!),
+            ts && field.typeAnnotation
+              ? assignTypeArguments(
+                  call,
                   t.tsTypeParameterInstantiation([field.typeAnnotation.node])
                 )
               : call
@@ -447,6 +1309,134 @@ function transformClass(
     }
   }
 
+  if (analysis.expose) {
+    // useImperativeHandle(ref, () => ({ focus }), [focus]);
+    const localNames = analysis.expose.members.map(
+      (name) => analysis.userDefined.fields.get(name)!.localName!
+    );
+    preamble.push(
+      t.expressionStatement(
+        t.callExpression(
+          getReactImport("useImperativeHandle", babel, analysis.superClassRef),
+          [
+            t.identifier(analysis.expose.refName!),
+            t.arrowFunctionExpression(
+              [],
+              t.objectExpression(
+                analysis.expose.members.map((name, i) =>
+                  t.objectProperty(
+                    t.identifier(name),
+                    t.identifier(localNames[i]!),
+                    false,
+                    name === localNames[i]
+                  )
+                )
+              )
+            ),
+            t.arrayExpression(localNames.map((name) => t.identifier(name))),
+          ]
+        )
+      )
+    );
+  }
+
+  for (const pairedEffect of analysis.effects.pairedEffects) {
+    const { resource, listeners } = pairedEffect;
+    if (resource) {
+      // this.timer = setInterval(...) -> const timer = setInterval(...)
+      pairedEffect.acquirePath.replaceWith(
+        t.variableDeclaration("const", [
+          t.variableDeclarator(
+            t.identifier(resource.localName!),
+            resource.valuePath.node
+          ),
+        ])
+      );
+      for (const site of resource.releaseSites) {
+        // clearInterval(this.timer) -> clearInterval(timer)
+        site.replaceWith(t.identifier(resource.localName!));
+      }
+    }
+    const effectBody: Statement[] = [];
+    for (const listener of listeners) {
+      // Emit `const onResizeRef = useRef(onResize);`
+      // and `onResizeRef.current = onResize;`
+      const listenerRef = t.memberExpression(
+        t.identifier(listener.refName!),
+        t.identifier("current")
+      );
+      preamble.push(
+        t.variableDeclaration("const", [
+          t.variableDeclarator(
+            t.identifier(listener.refName!),
+            t.callExpression(
+              getReactImport("useRef", babel, analysis.superClassRef),
+              [t.identifier(listener.name)]
+            )
+          ),
+        ]),
+        t.expressionStatement(
+          t.assignmentExpression(
+            "=",
+            t.cloneNode(listenerRef),
+            t.identifier(listener.name)
+          )
+        )
+      );
+      // Emit `const listener = (...args) => onResizeRef.current(...args);` in the effect
+      const argsParam = t.restElement(t.identifier("args"));
+      if (ts) {
+        argsParam.typeAnnotation = t.tsTypeAnnotation(
+          t.tsTypeReference(
+            t.identifier("Parameters"),
+            t.tsTypeParameterInstantiation([
+              t.tsTypeQuery(t.identifier(listener.name)),
+            ])
+          )
+        );
+      }
+      effectBody.push(
+        t.variableDeclaration("const", [
+          t.variableDeclarator(
+            t.identifier(listener.localName!),
+            t.arrowFunctionExpression(
+              [argsParam],
+              t.callExpression(listenerRef, [
+                t.spreadElement(t.identifier("args")),
+              ])
+            )
+          ),
+        ])
+      );
+      for (const site of listener.sites) {
+        site.replaceWith(t.identifier(listener.localName!));
+      }
+    }
+    // Emit `useEffect(() => { acquire; return () => { release; }; }, []);`
+    effectBody.push(
+      pairedEffect.acquirePath.node,
+      t.returnStatement(
+        t.arrowFunctionExpression(
+          [],
+          t.blockStatement([pairedEffect.releasePath.node])
+        )
+      )
+    );
+    pairedEffect.acquirePath.remove();
+    pairedEffect.releasePath.remove();
+    preamble.push(
+      t.expressionStatement(
+        t.callExpression(
+          getReactImport("useEffect", babel, analysis.superClassRef),
+          [
+            t.arrowFunctionExpression([], t.blockStatement(effectBody)),
+            t.arrayExpression(),
+          ]
+        )
+      )
+    );
+  }
+
   if (
     analysis.effects.cdmPath ||
     analysis.effects.cduPath ||
@@ -454,6 +1444,41 @@ function transformClass(
   ) {
     // Emit "raw effects"
 
+    // Emit `const prevFoo = useRef(foo);` for componentDidUpdate parameters
+    const prevValueUpdates: Statement[] = [];
+    const prevValuePairs: [string, string][] = [
+      ...Array.from(analysis.effects.prevProps, ([name, prevValue]) => [
+        prevValue.localName!,
+        analysis.props.props.get(name)!.newAliasName!,
+      ]),
+      ...Array.from(analysis.effects.prevStates, ([name, prevValue]) => [
+        prevValue.localName!,
+        analysis.state.states.get(name)!.localName!,
+      ]),
+    ] as [string, string][];
+    for (const [refName, currentName] of prevValuePairs) {
+      preamble.push(
+        t.variableDeclaration("const", [
+          t.variableDeclarator(
+            t.identifier(refName),
+            t.callExpression(
+              getReactImport("useRef", babel, analysis.superClassRef),
+              [t.identifier(currentName)]
+            )
+          ),
+        ])
+      );
+      prevValueUpdates.push(
+        t.expressionStatement(
+          t.assignmentExpression(
+            "=",
+            t.memberExpression(t.identifier(refName), t.identifier("current")),
+            t.identifier(currentName)
+          )
+        )
+      );
+    }
+
     // Emit `const isMounted = useRef(false);`
     preamble.push(
       t.variableDeclaration("const", [
@@ -467,13 +1492,116 @@ function transformClass(
       ])
     );
 
+    // Emit `useEffect(() => { if (isMounted.current) { ... } }, [foo]);`
+    // for each guarded block in componentDidUpdate.
+    // They precede the effect below so that they are skipped on mount.
+    for (const guardedEffect of analysis.effects.guardedEffects) {
+      const consequent = guardedEffect.path.node.consequent;
+      guardedEffect.path.remove();
+      preamble.push(
+        t.expressionStatement(
+          t.callExpression(
+            getReactImport("useEffect", babel, analysis.superClassRef),
+            [
+              t.arrowFunctionExpression(
+                [],
+                t.blockStatement([
+                  t.ifStatement(
+                    t.memberExpression(
+                      t.identifier(analysis.effects.isMountedLocalName!),
+                      t.identifier("current")
+                    ),
+                    consequent.type === "BlockStatement"
+                      ? consequent
+                      : t.blockStatement([consequent])
+                  ),
+                ])
+              ),
+              t.arrayExpression(
+                guardedEffect.dependencies.map((dep) =>
+                  t.identifier(
+                    dep.type === "dep_prop_alias"
+                      ? analysis.props.props.get(dep.name)!.newAliasName!
+                      : analysis.state.states.get(dep.name)!.localName!
+                  )
+                )
+              ),
+            ]
+          )
+        )
+      );
+    }
+    const { snapshot } = analysis.effects;
+    if (snapshot) {
+      // Emit `const snapshot = useRef(null);`
+      const snapshotRefCall = t.callExpression(
+        getReactImport("useRef", babel, analysis.superClassRef),
+        [t.nullLiteral()]
+      );
+      preamble.push(
+        t.variableDeclaration("const", [
+          t.variableDeclarator(
+            t.identifier(snapshot.localName!),
+            snapshot.typeAnnotation && ts
+              ? assignTypeArguments(
+                  snapshotRefCall,
+                  t.tsTypeParameterInstantiation([
+                    isNullable(snapshot.typeAnnotation.node)
+                      ? snapshot.typeAnnotation.node
+                      : t.tsUnionType([
+                          snapshot.typeAnnotation.node,
+                          t.tsNullKeyword(),
+                        ]),
+                  ])
+                )
+              : snapshotRefCall
+          ),
+        ])
+      );
+      // Emit `if (isMounted.current) { snapshot.current = ...; }`
+      // This is the last moment before DOM mutation.
+      const gsbuBody = snapshot.path.node.body;
+      const snapshotValue =
+        gsbuBody.body.length === 1 &&
+        gsbuBody.body[0]!.type === "ReturnStatement" &&
+        gsbuBody.body[0].argument
+          ? gsbuBody.body[0].argument
+          : t.callExpression(t.arrowFunctionExpression([], gsbuBody), []);
+      preamble.push(
+        t.ifStatement(
+          t.memberExpression(
+            t.identifier(analysis.effects.isMountedLocalName!),
+            t.identifier("current")
+          ),
+          t.blockStatement([
+            t.expressionStatement(
+              t.assignmentExpression(
+                "=",
+                t.memberExpression(
+                  t.identifier(snapshot.localName!),
+                  t.identifier("current")
+                ),
+                snapshotValue
+              )
+            ),
+          ])
+        )
+      );
+    }
+    const cduBody = analysis.effects.cduPath?.node.body;
+
     // Emit first `useEffect` for componentDidMount/componentDidUpdate
     // It also updates `isMounted` -- needed for componentWillUnmount as well!
+    // With a snapshot, it is `useLayoutEffect` so that componentDidUpdate runs before paint.
     preamble.push(
       t.addComment(
         t.expressionStatement(
           t.callExpression(
-            getReactImport("useEffect", babel, analysis.superClassRef),
+            getReactImport(
+              snapshot ? "useLayoutEffect" : "useEffect",
+              babel,
+              analysis.superClassRef
+            ),
             [
               t.arrowFunctionExpression(
                 [],
@@ -502,7 +1630,7 @@ function transformClass(
                       ...(analysis.effects.cdmPath?.node.body.body ?? []),
                     ]),
                     // Alternate: contents of componentDidUpdate, if any
-                    analysis.effects.cduPath?.node.body
+                    cduBody && cduBody.body.length > 0 ? cduBody : undefined
                   ),
                 ])
               ),
@@ -516,6 +1644,19 @@ function transformClass(
     );
     refreshComments(preamble[preamble.length - 1]!);
 
+    if (prevValueUpdates.length > 0) {
+      // Emit `useEffect(() => { prevFoo.current = foo; });`
+      // Placed after the effect above so that componentDidUpdate observes the previous values.
+      preamble.push(
+        t.expressionStatement(
+          t.callExpression(
+            getReactImport("useEffect", babel, analysis.superClassRef),
+            [t.arrowFunctionExpression([], t.blockStatement(prevValueUpdates))]
+          )
+        )
+      );
+    }
+
     if (analysis.effects.cwuPath) {
       // To workaround dependency issues, store the latest callback in a ref
 
@@ -533,10 +1674,12 @@ function transformClass(
               ts
                 ? t.tsTypeParameterInstantiation([
                     t.tsUnionType([
-                      t.tsFunctionType(
-                        null,
-                        [],
-                        t.tsTypeAnnotation(t.tsVoidKeyword())
+                      t.tsParenthesizedType(
+                        t.tsFunctionType(
+                          null,
+                          [],
+                          t.tsTypeAnnotation(t.tsVoidKeyword())
+                        )
                       ),
                       t.tsNullKeyword(),
                     ]),
@@ -619,72 +1762,235 @@ function transformClass(
                     ),
                   ])
                 ),
-                t.arrayExpression([]),
-              ]
-            )
-          ),
-          "leading",
-          " TODO(react-declassify): refactor this effect (automatically generated from lifecycle)",
-          true
+                t.arrayExpression([]),
+              ]
+            )
+          ),
+          "leading",
+          " TODO(react-declassify): refactor this effect (automatically generated from lifecycle)",
+          true
+        )
+      );
+      refreshComments(preamble[preamble.length - 1]!);
+    }
+  }
+
+  if (analysis.state.pendingCallbacksName) {
+    const callbacks = analysis.state.setStateSites.flatMap((site) =>
+      site.callback ? [site.callback.path.node] : []
+    );
+    const pendingCallbacks = t.memberExpression(
+      t.identifier(analysis.state.pendingCallbacksName),
+      t.identifier("current")
+    );
+    preamble.push(
+      // Emit `const pendingCallbacks = useRef([]);`
+      t.variableDeclaration("const", [
+        t.variableDeclarator(
+          t.identifier(analysis.state.pendingCallbacksName),
+          assignTypeArguments(
+            t.callExpression(
+              getReactImport("useRef", babel, analysis.superClassRef),
+              [t.arrayExpression([])]
+            ),
+            // Type annotation: useRef<number[]>
+            ts
+              ? t.tsTypeParameterInstantiation([
+                  t.tsArrayType(t.tsNumberKeyword()),
+                ])
+              : null
+          )
+        ),
+      ]),
+      // Emit `const [, requestCallbacks] = useReducer((x) => x + 1, 0);`
+      // so that the component re-renders even if the states are unchanged.
+      t.variableDeclaration("const", [
+        t.variableDeclarator(
+          t.arrayPattern([
+            null,
+            t.identifier(analysis.state.requestCallbacksName!),
+          ]),
+          t.callExpression(
+            getReactImport("useReducer", babel, analysis.superClassRef),
+            [
+              t.arrowFunctionExpression(
+                [t.identifier("x")],
+                t.binaryExpression("+", t.identifier("x"), t.numericLiteral(1))
+              ),
+              t.numericLiteral(0),
+            ]
+          )
+        ),
+      ]),
+      // Emit `useEffect(() => { const callbacks = [...]; for (const i of pendingCallbacks.current.splice(0)) { callbacks[i](); } });`
+      // which runs after every update, so that the callbacks see the committed values.
+      t.expressionStatement(
+        t.callExpression(
+          getReactImport("useEffect", babel, analysis.superClassRef),
+          [
+            t.arrowFunctionExpression(
+              [],
+              t.blockStatement([
+                t.variableDeclaration("const", [
+                  t.variableDeclarator(
+                    t.identifier(analysis.state.callbacksName!),
+                    t.arrayExpression(callbacks)
+                  ),
+                ]),
+                t.forOfStatement(
+                  t.variableDeclaration("const", [
+                    t.variableDeclarator(t.identifier("i")),
+                  ]),
+                  t.callExpression(
+                    t.memberExpression(
+                      t.cloneNode(pendingCallbacks),
+                      t.identifier("splice")
+                    ),
+                    [t.numericLiteral(0)]
+                  ),
+                  t.blockStatement([
+                    t.expressionStatement(
+                      t.callExpression(
+                        t.memberExpression(
+                          t.identifier(analysis.state.callbacksName!),
+                          t.identifier("i"),
+                          true
+                        ),
+                        []
+                      )
+                    ),
+                  ])
+                ),
+              ])
+            ),
+          ]
         )
-      );
-      refreshComments(preamble[preamble.length - 1]!);
-    }
+      )
+    );
   }
 
   // Soft error handling
   for (const softError of softErrors.errors) {
     if (softError.type === "invalid_decl") {
+      let stmt: Statement | undefined = undefined;
       if (isClassPropertyLike(softError.path) && softError.path.node.value) {
-        preamble.push(
-          t.expressionStatement(
-            t.assignmentExpression(
-              "=",
-              memberFromDecl(
-                babel,
-                t.identifier("TODO_this"),
-                softError.path.node
-              ),
-              softError.path.node.value
-            )
+        stmt = t.expressionStatement(
+          t.assignmentExpression(
+            "=",
+            memberFromDecl(
+              babel,
+              t.identifier("TODO_this"),
+              softError.path.node
+            ),
+            softError.path.node.value
           )
         );
       } else if (isClassMethodLike(softError.path)) {
-        preamble.push(
-          t.expressionStatement(
-            t.assignmentExpression(
-              "=",
-              memberFromDecl(
-                babel,
-                t.identifier("TODO_this"),
-                softError.path.node
-              ),
-              functionExpressionFrom(babel, softError.path.node)
-            )
+        stmt = t.expressionStatement(
+          t.assignmentExpression(
+            "=",
+            memberFromDecl(
+              babel,
+              t.identifier("TODO_this"),
+              softError.path.node
+            ),
+            functionExpressionFrom(babel, softError.path.node)
           )
         );
       }
+      if (stmt && softError.reason) {
+        t.addComment(
+          stmt,
+          "leading",
+          ` TODO(react-declassify): ${softError.reason}`,
+          true
+        );
+        refreshComments(stmt);
+      }
+      if (stmt) {
+        preamble.push(stmt);
+      }
+    }
+  }
+
+  for (const [i, returnPath] of analysis.context.renderReturns.entries()) {
+    // return <div /> -> return <RouterContext.Provider value={router}><div /></RouterContext.Provider>
+    let element = returnPath.node.argument;
+    if (!element) {
+      continue;
+    }
+    for (const provider of [...analysis.context.legacyProviders].reverse()) {
+      const contextName = getModuleImport(
+        provider.mapping.name,
+        provider.mapping.source,
+        babel,
+        analysis.render.path
+      );
+      const valueNode =
+        i === 0
+          ? provider.valuePath.node
+          : t.cloneNode(provider.valuePath.node);
+      element = t.jsxElement(
+        t.jsxOpeningElement(
+          t.jsxMemberExpression(
+            t.jsxIdentifier(contextName.name),
+            t.jsxIdentifier("Provider")
+          ),
+          [
+            t.jsxAttribute(
+              t.jsxIdentifier("value"),
+              t.jsxExpressionContainer(valueNode)
+            ),
+          ]
+        ),
+        t.jsxClosingElement(
+          t.jsxMemberExpression(
+            t.jsxIdentifier(contextName.name),
+            t.jsxIdentifier("Provider")
+          )
+        ),
+        [
+          element.type === "JSXElement" || element.type === "JSXFragment"
+            ? element
+            : t.jsxExpressionContainer(element),
+        ]
+      );
     }
+    returnPath.node.argument = element;
   }
 
   const bodyNode = analysis.render.path.node.body;
   bodyNode.body.splice(0, 0, ...preamble);
+  // If some static members cannot be typed, we leave the whole type to the inference of TS expando properties:
+  // const C = (props: Props) => { ... }; C.format = function format(x) { ... };
+  const staticsInferred =
+    ts &&
+    Array.from(analysis.statics.members).some(
+      ([name, member]) => !FC_STATIC_NAMES.has(name) && !member.typed
+    );
   // recast is not smart enough to correctly pretty-print type parameters for arrow functions.
   // so we fall back to functions when type parameters are present.
-  const functionNeeded = analysis.isPure || !!analysis.typeParameters;
-  const params = needsProps(analysis)
+  const functionNeeded =
+    analysis.isPure ||
+    !!analysis.memo.comparator ||
+    !!analysis.typeParameters ||
+    !!keepName;
+  // If the function is generic, put type annotations here instead of the `const` to be defined.
+  // TODO: take children into account, while being careful about difference between `@types/react` v17 and v18
+  const paramTyping =
+    (analysis.typeParameters || staticsInferred) && analysis.propsTyping
+      ? t.tsTypeAnnotation(analysis.propsTyping.node)
+      : undefined;
+  const params: Identifier[] = needsProps(analysis)
     ? [
         assignTypeAnnotation(
-          t.identifier("props"),
-          // If the function is generic, put type annotations here instead of the `const` to be defined.
-          // TODO: take children into account, while being careful about difference between `@types/react` v17 and v18
-          analysis.typeParameters
-            ? analysis.propsTyping
-              ? t.tsTypeAnnotation(analysis.propsTyping.node)
-              : undefined
-            : undefined
+          t.identifier(analysis.props.merged?.rawName ?? "props"),
+          paramTyping
         ),
       ]
+    : paramTyping
+    ? // Keep the props type in the signature even if unused
+      [assignTypeAnnotation(t.identifier("_props"), paramTyping)]
     : [];
   // If the function is generic, put type annotations here instead of the `const` to be defined.
   const returnType = analysis.typeParameters
@@ -701,6 +2007,11 @@ function transformClass(
         ])
       )
     : undefined;
+  if (analysis.expose) {
+    // forwardRef((props, ref) => { ... })
+    params[0] ??= t.identifier("_props");
+    params.push(t.identifier(analysis.expose.refName!));
+  }
   let funcNode: Expression = assignTypeParameters(
     assignReturnType(
       functionNeeded
@@ -714,29 +2025,290 @@ function transformClass(
     ),
     analysis.typeParameters?.node
   );
-  if (analysis.isPure) {
+  if (analysis.expose) {
+    // type CHandle = { focus: () => void };
+    const handleName = `${analysis.name?.name ?? "Component"}Handle`;
+    if (ts) {
+      const handleDecl = t.tsTypeAliasDeclaration(
+        t.identifier(handleName),
+        null,
+        t.tsTypeLiteral(
+          analysis.expose.members.map((name) =>
+            t.tsPropertySignature(
+              t.identifier(name),
+              t.tsTypeAnnotation(
+                handleMemberType(
+                  analysis.userDefined.fields.get(name) as UserDefinedFn,
+                  babel
+                )
+              )
+            )
+          )
+        )
+      );
+      // export type CHandle = ...; if the component is exported
+      hoisted.push(
+        exported ? t.exportNamedDeclaration(handleDecl) : handleDecl
+      );
+    }
+    const call = t.callExpression(
+      getReactImport("forwardRef", babel, analysis.superClassRef),
+      [funcNode]
+    );
+    funcNode = ts
+      ? assignTypeArguments(
+          call,
+          t.tsTypeParameterInstantiation([
+            t.tsTypeReference(t.identifier(handleName)),
+            ...(analysis.propsTyping ? [analysis.propsTyping.node] : []),
+          ])
+        )
+      : call;
+  }
+  if (analysis.memo.comparator) {
+    const comparator = analysis.memo.comparator;
+    funcNode = t.callExpression(
+      getReactImport("memo", babel, analysis.superClassRef),
+      [funcNode, comparatorFrom(babel, comparator)]
+    );
+  } else if (analysis.isPure) {
     funcNode = t.callExpression(
       getReactImport("memo", babel, analysis.superClassRef),
       [funcNode]
     );
   }
+  const trailing: Statement[] = [];
+  const staticTypes: TSPropertySignature[] = [];
+  for (const [name, member] of analysis.statics.members) {
+    // static Item = Item; -> C.Item = Item;
+    const key = t.isValidIdentifier(name)
+      ? t.identifier(name)
+      : t.stringLiteral(name);
+    trailing.push(
+      t.expressionStatement(
+        t.assignmentExpression(
+          "=",
+          t.memberExpression(
+            t.identifier(analysis.name!.name),
+            key,
+            key.type === "StringLiteral"
+          ),
+          member.init.type === "init_method"
+            ? functionExpressionFrom(
+                babel,
+                member.init.methodPath.node,
+                key.type === "Identifier" ? t.cloneNode(key) : null
+              )
+            : member.init.valuePath.node
+        )
+      )
+    );
+    if (!FC_STATIC_NAMES.has(name) && member.typed) {
+      staticTypes.push(
+        t.tsPropertySignature(
+          t.cloneNode(key),
+          t.tsTypeAnnotation(staticMemberType(member, babel))
+        )
+      );
+    }
+  }
+  let typeNode: TSType | undefined = undefined;
+  if (ts && !analysis.typeParameters && !analysis.expose && !staticsInferred) {
+    typeNode = t.tsTypeReference(
+      toTSEntity(getReactImport("FC", babel, analysis.superClassRef), babel),
+      analysis.propsTyping
+        ? t.tsTypeParameterInstantiation([analysis.propsTyping.node])
+        : null
+    );
+    if (staticTypes.length > 0) {
+      // React.FC<Props> & { Item: typeof Item }
+      typeNode = t.tsIntersectionType([typeNode, t.tsTypeLiteral(staticTypes)]);
+    }
+  }
   return {
     funcNode,
-    typeNode:
-      ts && !analysis.typeParameters
-        ? t.tsTypeReference(
-            toTSEntity(
-              getReactImport("FC", babel, analysis.superClassRef),
-              babel
-            ),
-            analysis.propsTyping
-              ? t.tsTypeParameterInstantiation([analysis.propsTyping.node])
-              : null
-          )
-        : undefined,
+    hoisted,
+    trailing,
+    typeNode,
   };
 }
 
+/**
+ * Converts shouldComponentUpdate to the comparator for `React.memo`.
+ * Note that the comparator returns true when the component should *not* be updated.
+ */
+function comparatorFrom(
+  babel: typeof import("@babel/core"),
+  comparator: MemoComparator
+): ArrowFunctionExpression {
+  const { types: t } = babel;
+  for (const site of comparator.propsSites) {
+    // this.props -> prevProps
+    site.replaceWith(t.identifier(comparator.prevPropsName));
+  }
+  for (const returnPath of comparator.returns) {
+    // return cond; -> return !cond;
+    // return false; -> return true;
+    const argument = returnPath.node.argument;
+    returnPath.node.argument = !argument
+      ? t.booleanLiteral(true)
+      : argument.type === "BooleanLiteral"
+      ? t.booleanLiteral(!argument.value)
+      : t.unaryExpression("!", argument);
+  }
+  const body = comparator.path.node.body;
+  const params = [
+    t.identifier(comparator.prevPropsName),
+    ...(comparator.nextPropsParam ? [comparator.nextPropsParam.node] : []),
+  ];
+  if (body.body.length === 1 && body.body[0]!.type === "ReturnStatement") {
+    // (prevProps, nextProps) => !cond
+    return t.arrowFunctionExpression(params, body.body[0]!.argument!);
+  }
+  return t.arrowFunctionExpression(params, body);
+}
+
+/**
+ * `HTMLInputElement` for `<input>` and `React.ElementRef<typeof Foo>` for `<Foo>`
+ */
+function refElementTSType(
+  elementType: RefElementType,
+  babel: typeof import("@babel/core"),
+  superClassRef: LibRef
+): TSType {
+  const { types: t } = babel;
+  if (elementType.type === "intrinsic") {
+    return t.tsTypeReference(t.identifier(elementType.typeName));
+  }
+  const toEntity = (name: JSXIdentifier | JSXMemberExpression): TSEntityName =>
+    name.type === "JSXIdentifier"
+      ? t.identifier(name.name)
+      : t.tsQualifiedName(
+          toEntity(name.object),
+          t.identifier(name.property.name)
+        );
+  return t.tsTypeReference(
+    toTSEntity(getReactImport("ElementRef", babel, superClassRef), babel),
+    t.tsTypeParameterInstantiation([t.tsTypeQuery(toEntity(elementType.name))])
+  );
+}
+
+/**
+ * Type of an exposed method, as in `focus: () => void` in the handle type
+ */
+function handleMemberType(
+  field: UserDefinedFn,
+  babel: typeof import("@babel/core")
+): TSType {
+  const { types: t } = babel;
+  if (field.typeAnnotation) {
+    return t.cloneNode(field.typeAnnotation.node);
+  }
+  return functionTypeFrom(
+    field.init.type === "method" ? field.init.path : field.init.initPath,
+    babel
+  );
+}
+
+/**
+ * Type of a static member, as in `Item: typeof Item` in `React.FC<Props> & { Item: typeof Item }`
+ *
+ * Only called for members whose type can be written out (`typed`).
+ */
+function staticMemberType(
+  member: StaticMemberAnalysis,
+  babel: typeof import("@babel/core")
+): TSType {
+  const { types: t } = babel;
+  if (member.typeAnnotation) {
+    return t.cloneNode(member.typeAnnotation.node);
+  } else if (member.init.type === "init_method") {
+    return functionTypeFrom(member.init.methodPath, babel);
+  }
+  const valuePath = member.init.valuePath;
+  if (
+    valuePath.isFunctionExpression() ||
+    valuePath.isArrowFunctionExpression()
+  ) {
+    return functionTypeFrom(valuePath, babel);
+  }
+  const literalType = literalTypeAnnotation(valuePath.node, babel);
+  if (literalType) {
+    return literalType.typeAnnotation;
+  } else if (isEntityExpression(valuePath.node)) {
+    // static Item = Item; -> Item: typeof Item
+    return t.tsTypeQuery(toTSEntity(valuePath.node, babel));
+  }
+  throw new Error("Cannot write out the type of the static member");
+}
+
+/**
+ * Builds a function type from the signature, as in `(x?: number) => void`
+ *
+ * Parameters and return values without annotations are typed as `unknown`.
+ */
+function functionTypeFrom(
+  fnPath: FunctionLikePath,
+  babel: typeof import("@babel/core")
+): TSType {
+  const { types: t } = babel;
+  const params = fnPath.node.params.map(
+    (param, i): Identifier | RestElement => {
+      const optional = param.type === "AssignmentPattern";
+      const target = param.type === "AssignmentPattern" ? param.left : param;
+      if (target.type === "Identifier") {
+        // (x: number = 0) => ... -> (x?: number) => ...
+        const typeAnnotation =
+          target.typeAnnotation ??
+          (param.type === "AssignmentPattern"
+            ? literalTypeAnnotation(param.right, babel)
+            : undefined);
+        return {
+          ...t.cloneNode(target),
+          optional,
+          typeAnnotation: typeAnnotation
+            ? t.cloneNode(typeAnnotation)
+            : t.tsTypeAnnotation(t.tsUnknownKeyword()),
+        };
+      } else if (
+        target.type === "ObjectPattern" ||
+        target.type === "ArrayPattern"
+      ) {
+        // ({ x }: Options) => ... -> (__0: Options) => ...
+        return {
+          ...t.identifier(`__${i}`),
+          optional,
+          typeAnnotation: target.typeAnnotation
+            ? t.cloneNode(target.typeAnnotation)
+            : t.tsTypeAnnotation(t.tsUnknownKeyword()),
+        };
+      } else if (target.type === "RestElement") {
+        // (...args) => ... -> (...args: unknown[]) => ...
+        return {
+          ...t.cloneNode(target),
+          typeAnnotation: target.typeAnnotation
+            ? t.cloneNode(target.typeAnnotation)
+            : t.tsTypeAnnotation(t.tsArrayType(t.tsUnknownKeyword())),
+        };
+      }
+      // Rejected in the analysis
+      throw new Error(`Unexpected parameter: ${target.type}`);
+    }
+  );
+  const returnType: TSType = fnPath.node.returnType
+    ? (fnPath.node.returnType as TSTypeAnnotation).typeAnnotation
+    : returnsValue(fnPath)
+    ? t.tsUnknownKeyword()
+    : t.tsVoidKeyword();
+  return t.tsFunctionType(
+    fnPath.node.typeParameters
+      ? t.cloneNode(fnPath.node.typeParameters as TSTypeParameterDeclaration)
+      : null,
+    params,
+    t.tsTypeAnnotation(t.cloneNode(returnType))
+  );
+}
+
 function toTSEntity(
   expr: Expression,
   babel: typeof import("@babel/core")
@@ -757,6 +2329,32 @@ function toTSEntity(
   throw new Error(`Cannot convert to TSEntityName: ${expr.type}`);
 }
 
+/**
+ * `: boolean` for the default value `false`, for example
+ */
+function literalTypeAnnotation(
+  expr: Expression,
+  babel: typeof import("@babel/core")
+): TSTypeAnnotation | undefined {
+  const { types: t } = babel;
+  switch (expr.type) {
+    case "StringLiteral":
+    case "TemplateLiteral":
+      return t.tsTypeAnnotation(t.tsStringKeyword());
+    case "NumericLiteral":
+      return t.tsTypeAnnotation(t.tsNumberKeyword());
+    case "BooleanLiteral":
+      return t.tsTypeAnnotation(t.tsBooleanKeyword());
+  }
+}
+
+function isNullable(type: TSType): boolean {
+  return (
+    type.type === "TSNullKeyword" ||
+    (type.type === "TSUnionType" && type.types.some((t) => isNullable(t)))
+  );
+}
+
 function getReactImport(
   name: string,
   babel: typeof import("@babel/core"),
@@ -794,6 +2392,62 @@ function getReactImport(
   return t.identifier(newName);
 }
 
+/**
+ * Finds or adds an import of a named export, e.g. `import { RouterContext } from "~/contexts";`
+ */
+function getModuleImport(
+  name: string,
+  source: string,
+  babel: typeof import("@babel/core"),
+  path: NodePath
+): Identifier {
+  const { types: t } = babel;
+  const programPath = path.scope.getProgramParent().path as NodePath<Program>;
+  let importDecl: NodePath<ImportDeclaration> | undefined = undefined;
+  for (const stmt of programPath.get("body")) {
+    if (
+      !stmt.isImportDeclaration() ||
+      stmt.node.source.value !== source ||
+      stmt.node.importKind === "type" ||
+      stmt.node.importKind === "typeof"
+    ) {
+      continue;
+    }
+    for (const spec of stmt.get("specifiers")) {
+      if (
+        spec.isImportSpecifier() &&
+        importName(spec.node.imported) === name &&
+        spec.node.importKind !== "type"
+      ) {
+        return t.cloneNode(spec.node.local);
+      }
+    }
+    if (!stmt.node.specifiers.some((spec) => spec.type !== "ImportSpecifier")) {
+      importDecl ??= stmt;
+    }
+  }
+  // No existing decl
+  const newName = programPath.scope.hasBinding(name)
+    ? programPath.scope.generateUid(name)
+    : name;
+  const spec = t.importSpecifier(t.identifier(newName), t.identifier(name));
+  if (importDecl) {
+    importDecl.pushContainer("specifiers", spec);
+  } else {
+    const lastImport = programPath
+      .get("body")
+      .filter((stmt) => stmt.isImportDeclaration())
+      .pop();
+    const newDecl = t.importDeclaration([spec], t.stringLiteral(source));
+    if (lastImport) {
+      lastImport.insertAfter(newDecl);
+    } else {
+      programPath.unshiftContainer("body", newDecl);
+    }
+  }
+  return t.identifier(newName);
+}
+
 type FunctionLike =
   | FunctionDeclaration
   | FunctionExpression
@@ -875,6 +2529,22 @@ function arrowFunctionExpressionFrom(
   );
 }
 
+/**
+ * Inserts `let foo0 = foo;` for a reassigned variable, where `foo` is the hoisted one.
+ */
+function insertAliasCopy(
+  babel: typeof import("@babel/core"),
+  copy: AliasCopy,
+  name: string
+) {
+  const { types: t } = babel;
+  copy.declPath.insertBefore(
+    t.variableDeclaration(copy.declPath.node.kind, [
+      t.variableDeclarator(t.identifier(copy.newName!), t.identifier(name)),
+    ])
+  );
+}
+
 function constDeclaration(
   babel: typeof import("@babel/core"),
   id: Identifier,
@@ -894,6 +2564,208 @@ function constDeclaration(
   ]);
 }
 
+/**
+ * Whether the initial value is `undefined`, which can be omitted from `useState()`.
+ */
+function isUndefined(expr: Expression): boolean {
+  return expr.type === "Identifier" && expr.name === "undefined";
+}
+
+/**
+ * Renames references to the inner name of a class expression, as in `<Inner />` in `class Inner extends Component {}`.
+ */
+function renameSelfReferences(path: NodePath<ClassExpression>, name: string) {
+  if (!path.node.id || path.node.id.name === name) {
+    return;
+  }
+  const selfBinding = path.scope.getBinding(path.node.id.name);
+  for (const refPath of selfBinding?.referencePaths ?? []) {
+    if (refPath.isIdentifier() || refPath.isJSXIdentifier()) {
+      refPath.node.name = name;
+    }
+  }
+}
+
+/**
+ * Marks the node with the reason why the transformation was aborted.
+ */
+/**
+ * Splits an error boundary into two classes:
+ *
+ * - The original class keeping the name, which only contains the boundary logic and the fallback UI.
+ * - A class named like `CContent` which contains the rest. It is transformed to a function component later.
+ *
+ * @returns the former class
+ */
+function splitErrorBoundary(
+  path: NodePath<ClassDeclaration>,
+  boundary: ErrorBoundaryAnalysis,
+  ts: boolean,
+  babel: typeof import("@babel/core")
+): ClassDeclaration {
+  const { types: t } = babel;
+  const stmtPath = path.parentPath.isExportDeclaration()
+    ? path.parentPath
+    : path;
+  const name = path.node.id?.name;
+  let contentName = `${name ?? ""}Content`;
+  if (path.scope.hasBinding(contentName)) {
+    contentName = path.scope.generateUid(contentName);
+  }
+
+  // The boundary part
+  const shellMembers: ClassBody["body"] = [];
+  if (boundary.stateInits.length > 0) {
+    // state = { hasError: false };
+    shellMembers.push(
+      t.classProperty(
+        t.identifier("state"),
+        t.objectExpression(boundary.stateInits.map((init) => init.node))
+      )
+    );
+  }
+  shellMembers.push(
+    ...boundary.members.map((member) => member.node as ClassBody["body"][0])
+  );
+  // render() { if (this.state.hasError) { ... } return <CContent {...this.props} />; }
+  shellMembers.push(
+    t.classMethod(
+      "method",
+      t.identifier("render"),
+      [],
+      t.blockStatement([
+        ...boundary.fallbacks.map((fallback) => fallback.node),
+        t.returnStatement(
+          t.jsxElement(
+            t.jsxOpeningElement(
+              t.jsxIdentifier(contentName),
+              [
+                t.jsxSpreadAttribute(
+                  t.memberExpression(t.thisExpression(), t.identifier("props"))
+                ),
+              ],
+              true
+            ),
+            null,
+            [],
+            true
+          )
+        ),
+      ])
+    )
+  );
+  const shell = t.classDeclaration(
+    // The id may be absent in `export default class extends ...`
+    (path.node.id ? t.cloneNode(path.node.id) : null) as Identifier,
+    path.node.superClass ? t.cloneNode(path.node.superClass) : null,
+    t.classBody(shellMembers)
+  );
+  const superTypeParameters = path.node.superTypeParameters;
+  const stateKeysType = () =>
+    t.tsUnionType(
+      Array.from(boundary.stateKeys, (key) =>
+        t.tsLiteralType(t.stringLiteral(key))
+      )
+    );
+  let shellStateType: [TSType, TSType] | undefined = undefined;
+  if (
+    ts &&
+    superTypeParameters?.type === "TSTypeParameterInstantiation" &&
+    superTypeParameters.params.length === 2
+  ) {
+    const [propsType, stateType] = superTypeParameters.params as [
+      TSType,
+      TSType
+    ];
+    shellStateType = [propsType, stateType];
+    // React.Component<Props, State> -> React.Component<Props, Pick<State, "hasError">>
+    shell.superTypeParameters = t.tsTypeParameterInstantiation([
+      t.cloneNode(propsType),
+      t.tsTypeReference(
+        t.identifier("Pick"),
+        t.tsTypeParameterInstantiation([
+          t.cloneNode(stateType),
+          stateKeysType(),
+        ])
+      ),
+    ]);
+  } else if (superTypeParameters) {
+    shell.superTypeParameters = t.cloneNode(superTypeParameters);
+  }
+
+  // The rest
+  for (const paths of [
+    boundary.members,
+    boundary.fallbacks,
+    boundary.stateInits,
+  ]) {
+    for (const path of paths) {
+      path.remove();
+    }
+  }
+  const content = t.cloneNode(path.node, false);
+  content.id = t.identifier(contentName);
+  if (shellStateType) {
+    // React.Component<Props, State> -> React.Component<Props, Omit<State, "hasError">>
+    content.superTypeParameters = t.tsTypeParameterInstantiation([
+      t.cloneNode(shellStateType[0]),
+      t.tsTypeReference(
+        t.identifier("Omit"),
+        t.tsTypeParameterInstantiation([
+          t.cloneNode(shellStateType[1]),
+          stateKeysType(),
+        ])
+      ),
+    ]);
+  }
+
+  if (name != null) {
+    // Necessary to avoid false error regarding duplicate declaration.
+    path.scope.removeBinding(name);
+  }
+  const shellStmt = stmtPath.isExportNamedDeclaration()
+    ? t.exportNamedDeclaration(shell)
+    : stmtPath.isExportDefaultDeclaration()
+    ? t.exportDefaultDeclaration(shell)
+    : shell;
+  // Comments go to the class that keeps the name
+  shellStmt.leadingComments = stmtPath.node.leadingComments ?? null;
+  stmtPath.node.leadingComments = null;
+  refreshComments(shellStmt);
+  refreshComments(stmtPath.node);
+  stmtPath.replaceWithMultiple([content, shellStmt]);
+  return shell;
+}
+
+function insertHoisted(stmtPath: NodePath, hoisted: Statement[]) {
+  if (hoisted.length > 0) {
+    stmtPath.insertBefore(hoisted);
+  }
+}
+
+function insertTrailing(stmtPath: NodePath, trailing: Statement[]) {
+  if (trailing.length > 0) {
+    stmtPath.insertAfter(trailing);
+  }
+}
+
+function addErrorComment(
+  babel: typeof import("@babel/core"),
+  node: Node,
+  e: unknown
+) {
+  const { types: t } = babel;
+  if (!(e instanceof AnalysisError)) {
+    throw e;
+  }
+  t.addComment(
+    node,
+    "leading",
+    ` react-declassify-disable Cannot perform transformation: ${e.message} `
+  );
+  refreshComments(node);
+}
+
 /**
  * Refreshes recast's internal state to force generically printing comments.
  */